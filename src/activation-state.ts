@@ -0,0 +1,154 @@
+import type { RoleSource } from "./pim-cli.js";
+import { parseIsoDurationHours } from "./pim-policy.js";
+
+/**
+ * Where an activation request stands, simplified from the PIM request status:
+ * - activated: the role is live (Provisioned, or it was already active)
+ * - pendingApproval: waiting on an approver
+ * - submitted: accepted by PIM but not yet provisioned
+ * - scheduled: granted, and will become active at a future start time
+ * - denied / failed: the request will not result in an activation
+ * - deactivated: a deactivation request took effect and the role is no longer active
+ */
+export type ActivationState =
+  | "activated"
+  | "pendingApproval"
+  | "submitted"
+  | "scheduled"
+  | "denied"
+  | "failed"
+  | "deactivated";
+
+/**
+ * A submitted activation (or deactivation) request that can be checked again later
+ */
+export interface ActivationRequest {
+  /** The requested role, as reported in CliActivationResult */
+  role: string;
+  roleSource: RoleSource;
+  /** ARM resource ID of the request, or the Graph request ID for directory and group roles */
+  requestId: string;
+  /** Raw PIM request status (e.g., "PendingApproval", "Provisioned") */
+  status: string;
+  state: ActivationState;
+  /** When the activation starts, for scheduled activations */
+  startDateTime?: string;
+  /** Set when the status could not be read */
+  error?: string;
+}
+
+/**
+ * The outcome of submitting one activation request to a backend
+ */
+export interface ActivationAttempt {
+  success: boolean;
+  message: string;
+  state?: ActivationState;
+  requestId?: string;
+  status?: string;
+}
+
+/**
+ * The outcome of submitting one extension request
+ */
+export interface ExtensionAttempt extends ActivationAttempt {
+  /** When the extended role now ends, if the extension took effect and Azure reported its schedule */
+  endDateTime?: string;
+}
+
+/**
+ * Change ticket details sent with an activation request, for policies that require a ticket
+ */
+export interface TicketInfo {
+  ticketNumber?: string;
+  /** The system the ticket lives in (e.g., "ServiceNow") */
+  ticketSystem?: string;
+}
+
+const SCHEDULED_STATUSES = ["ScheduleCreated"];
+const PENDING_APPROVAL_STATUSES = ["PendingApproval", "PendingApprovalProvisioning", "PendingAdminDecision"];
+const DENIED_STATUSES = ["Denied", "AdminDenied", "Revoked", "Canceled"];
+const FAILED_STATUSES = ["Failed", "FailedAsResourceIsLocked", "TimedOut", "Invalid"];
+
+/**
+ * Map a PIM request status from ARM or Graph to an ActivationState.
+ * Graph reports the same status names as ARM. A request that is accepted but
+ * starts in the future is scheduled rather than submitted. A deactivation request that
+ * took effect is Revoked or Provisioned; Revoked on any other request means it was withdrawn.
+ */
+export function activationStateFromStatus(
+  status: string | undefined,
+  startDateTime?: string,
+  requestType?: string
+): ActivationState {
+  if ((status === "Revoked" || status === "Provisioned") && requestType?.toLowerCase().endsWith("deactivate")) {
+    return "deactivated";
+  }
+  if (status === "Provisioned") {
+    return "activated";
+  }
+  if (status && SCHEDULED_STATUSES.includes(status)) {
+    return "scheduled";
+  }
+  if (status && PENDING_APPROVAL_STATUSES.includes(status)) {
+    return "pendingApproval";
+  }
+  if (status && DENIED_STATUSES.includes(status)) {
+    return "denied";
+  }
+  if (status && FAILED_STATUSES.includes(status)) {
+    return "failed";
+  }
+  if (startDateTime && new Date(startDateTime).getTime() > Date.now()) {
+    return "scheduled";
+  }
+  return "submitted";
+}
+
+/**
+ * Whether a request in this state can still change soon.
+ * Scheduled requests only change at their start time, so they are not waited on.
+ */
+export function isPendingState(state: ActivationState): boolean {
+  return state === "submitted" || state === "pendingApproval";
+}
+
+/**
+ * Whether a request in this state can still be cancelled: PIM only cancels requests that are
+ * waiting on approval or provisioning, or scheduled to start later
+ */
+export function isCancellableState(state: ActivationState): boolean {
+  return isPendingState(state) || state === "scheduled";
+}
+
+/**
+ * Graph reports a request's type as an action such as "selfActivate"; ARM as a requestType
+ * such as "SelfActivate". Both are returned in the ARM form.
+ */
+export function requestTypeFromAction(action: string | undefined): string {
+  return action ? action.charAt(0).toUpperCase() + action.slice(1) : "";
+}
+
+/**
+ * Work out when a requested schedule ends, from its end time or its start and duration
+ */
+export function scheduleEndDateTime(scheduleInfo: any): string | undefined {
+  const startDateTime: string | undefined = scheduleInfo?.startDateTime;
+  const durationHours = parseIsoDurationHours(scheduleInfo?.expiration?.duration);
+  return scheduleInfo?.expiration?.endDateTime ||
+    (startDateTime && durationHours !== undefined
+      ? new Date(new Date(startDateTime).getTime() + durationHours * 60 * 60 * 1000).toISOString()
+      : undefined);
+}
+
+/**
+ * Names of the reviewers who decided an approval. ARM and Graph v1.0 list the decisions
+ * as stages, the Graph beta API as steps.
+ */
+export function approverNames(approval: any): string | undefined {
+  const stages: any[] = approval?.properties?.stages ?? approval?.stages ?? approval?.steps ?? [];
+  const names = stages
+    .map((stage) => stage.reviewedBy?.displayName || stage.reviewedBy?.userPrincipalName)
+    .filter((name): name is string => Boolean(name));
+  return names.length > 0 ? [...new Set(names)].join(", ") : undefined;
+}
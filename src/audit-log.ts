@@ -0,0 +1,212 @@
+import { appendFileSync, existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { currentClient, type RequestClient } from "./azure-rest.js";
+import { getEffectiveConfig, userConfigPath } from "./config-layers.js";
+import { expandHome } from "./token-provider.js";
+import type { ActivationState } from "./activation-state.js";
+import type { RoleSource } from "./pim-cli.js";
+
+/**
+ * Local audit log of elevations: one JSON line per activation, deactivation or extension
+ * request sent to Azure, whichever client (library, CLI or MCP server) sent it.
+ * The file is only ever appended to, and a failure to write it never fails the elevation itself.
+ */
+
+/**
+ * The "auditLog" block of .pim-me-mcp.json
+ */
+export interface AuditLogSettings {
+  /** Set to false to stop recording elevations (default: true) */
+  enabled?: boolean;
+  /**
+   * The log file (default: ~/.pim-me-audit.jsonl, next to the user config file).
+   * A relative path is resolved against the user config file's directory.
+   */
+  path?: string;
+}
+
+export type AuditAction = "activate" | "deactivate" | "extend";
+
+/**
+ * What came of a request: an activation's state (or alreadyActive when the role was
+ * already elevated), deactivated, extended, or failed
+ */
+export type AuditOutcome = ActivationState | "alreadyActive" | "deactivated" | "extended";
+
+/**
+ * One line of the audit log
+ */
+export interface AuditEntry {
+  /** When the outcome was recorded (ISO 8601) */
+  timestamp: string;
+  action: AuditAction;
+  client: RequestClient;
+  /** Role display name */
+  role: string;
+  /** Scope ID */
+  scope: string;
+  scopeName?: string;
+  roleSource?: RoleSource;
+  justification?: string;
+  /** Requested duration, after any policy maximum was applied */
+  durationHours?: number;
+  /** Start of a scheduled activation */
+  startDateTime?: string;
+  /** End of an extended activation */
+  endDateTime?: string;
+  ticketNumber?: string;
+  /** PIM request ID, when Azure returned one */
+  requestId?: string;
+  outcome: AuditOutcome;
+  error?: string;
+}
+
+/**
+ * An entry before recordAudit() stamps it with the time and client
+ */
+export type NewAuditEntry = Omit<AuditEntry, "timestamp" | "client">;
+
+/**
+ * Filters for queryAuditLog(); every filter given must match
+ */
+export interface AuditLogQuery {
+  /** Only entries at or after this time (ISO 8601 date or date-time) */
+  since?: string;
+  /** Only entries at or before this time (ISO 8601 date or date-time) */
+  until?: string;
+  /** Case-insensitive text matched against the role name, scope name and scope ID */
+  role?: string;
+  action?: AuditAction;
+  /** Return at most this many entries, newest first */
+  limit?: number;
+}
+
+export interface AuditLogQueryResult {
+  success: boolean;
+  /** Matching entries, newest first */
+  entries: AuditEntry[];
+  /** The log file read */
+  path: string;
+  message: string;
+}
+
+function auditLogSettings(): AuditLogSettings {
+  try {
+    return getEffectiveConfig().config.auditLog ?? {};
+  } catch (error) {
+    // A broken config file is reported where it's used; the log still goes to the default path
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Using the default audit log settings: ${errorMessage}`);
+    return {};
+  }
+}
+
+function settingsPath(settings: AuditLogSettings): string {
+  // The setting lives in the user config file, so it doesn't depend on where the server was started
+  return settings.path
+    ? expandHome(settings.path, dirname(userConfigPath()))
+    : join(homedir(), ".pim-me-audit.jsonl");
+}
+
+/**
+ * Path of the audit log file, from the "auditLog.path" setting or the default next to ~/.pim-me-mcp.json
+ */
+export function auditLogPath(): string {
+  return settingsPath(auditLogSettings());
+}
+
+/**
+ * Append entries to the audit log, stamped with the current time and client.
+ * Errors are logged rather than thrown, since the elevations they describe already happened.
+ */
+export function recordAudit(entries: NewAuditEntry[]): void {
+  if (entries.length === 0) {
+    return;
+  }
+  const settings = auditLogSettings();
+  if (settings.enabled === false) {
+    return;
+  }
+
+  const path = settingsPath(settings);
+  const timestamp = new Date().toISOString();
+  const client = currentClient();
+  const lines = entries.map((entry) => JSON.stringify({ timestamp, client, ...entry }));
+
+  try {
+    appendFileSync(path, lines.join("\n") + "\n", "utf-8");
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Could not write the audit log ${path}: ${errorMessage}`);
+  }
+}
+
+function parseTime(name: string, value: string | undefined, endOfDay: boolean = false): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = new Date(value).getTime();
+  if (isNaN(time)) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  // A bare date as the upper bound means the whole of that day
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + 24 * 60 * 60 * 1000 - 1 : time;
+}
+
+/**
+ * Read the audit log, newest entries first. Lines that aren't valid entries are skipped.
+ */
+export function queryAuditLogFile(query: AuditLogQuery = {}): AuditLogQueryResult {
+  const path = auditLogPath();
+  try {
+    const since = parseTime("since", query.since);
+    const until = parseTime("until", query.until, true);
+    const role = query.role?.toLowerCase();
+
+    if (!existsSync(path)) {
+      return { success: true, entries: [], path, message: "No elevations have been recorded yet." };
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of readFileSync(path, "utf-8").split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      const time = new Date(entry?.timestamp).getTime();
+      if (isNaN(time) || typeof entry.role !== "string") {
+        continue;
+      }
+      if ((since !== undefined && time < since) || (until !== undefined && time > until)) {
+        continue;
+      }
+      if (query.action && entry.action !== query.action) {
+        continue;
+      }
+      if (role && ![entry.role, entry.scopeName, entry.scope].some((text) => text?.toLowerCase().includes(role))) {
+        continue;
+      }
+      entries.push(entry);
+    }
+
+    entries.reverse();
+    const limited = query.limit !== undefined ? entries.slice(0, query.limit) : entries;
+    return {
+      success: true,
+      entries: limited,
+      path,
+      message: limited.length < entries.length
+        ? `Showing the latest ${limited.length} of ${entries.length} matching elevation(s).`
+        : `Found ${entries.length} matching elevation(s).`,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, entries: [], path, message: `Failed to read the audit log: ${errorMessage}` };
+  }
+}
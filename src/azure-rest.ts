@@ -0,0 +1,365 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { azureCliTokenProvider, type AccessToken, type TokenProvider } from "./token-provider.js";
+
+/** Token resource for Azure Resource Manager (Azure resource roles) */
+export const ARM_RESOURCE = "https://management.azure.com";
+
+/** Token resource for Microsoft Graph (Entra ID directory roles) */
+export const GRAPH_RESOURCE = "https://graph.microsoft.com";
+
+const defaultTokenProvider = azureCliTokenProvider();
+
+/**
+ * How failed requests are retried. 429 (throttling), 5xx and network errors are retried
+ * with exponential backoff and jitter, or after the server's Retry-After when it sends one.
+ * POST requests, which may not be idempotent, are only retried when the service says it
+ * didn't process them: a 429, or a 503 with Retry-After.
+ */
+export interface RetryPolicy {
+  /** Retries after the first attempt (default: 3) */
+  maxRetries: number;
+  /** Delay before the first retry, doubled for each one after (default: 1000ms) */
+  baseDelayMs: number;
+  /** Upper bound on any single delay, including Retry-After (default: 30000ms) */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Settings for the REST calls made during one library call
+ */
+export interface RequestOptions {
+  tokenProvider?: TokenProvider;
+  retry?: Partial<RetryPolicy>;
+  /** What is making the call, as recorded in the audit log (default: "library") */
+  client?: RequestClient;
+}
+
+export type RequestClient = "library" | "cli" | "mcp";
+
+// Options and retry count for the current library call, so they don't need passing through every backend
+interface RequestContext extends RequestOptions {
+  retries: number;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run fn with the given options applied to every REST call it makes.
+ * Without a token provider, the Azure CLI is used.
+ */
+export function withRequestOptions<T>(
+  options: RequestOptions,
+  fn: () => Promise<T>
+): Promise<T> {
+  return requestContext.run({ ...options, retries: 0 }, fn);
+}
+
+/**
+ * Iterate the generator made by iterate with the given options in effect while it runs.
+ * Each step is run inside the options' context, since generator bodies resume in their caller's.
+ */
+export async function* iterateWithRequestOptions<T>(
+  options: RequestOptions,
+  iterate: () => AsyncGenerator<T>
+): AsyncGenerator<T> {
+  const context: RequestContext = { ...options, retries: 0 };
+  const iterator = iterate();
+  try {
+    while (true) {
+      const result = await requestContext.run(context, () => iterator.next());
+      if (result.done) {
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    await requestContext.run(context, () => iterator.return(undefined));
+  }
+}
+
+/**
+ * The client making the current library call
+ */
+export function currentClient(): RequestClient {
+  return requestContext.getStore()?.client ?? "library";
+}
+
+/**
+ * Run fn and count the REST calls it had to retry.
+ * The count is also added to any enclosing countRetries call.
+ */
+export async function countRetries<T>(fn: () => Promise<T>): Promise<[T, number]> {
+  const parent = requestContext.getStore();
+  const context: RequestContext = { ...parent, retries: 0 };
+  try {
+    const result = await requestContext.run(context, fn);
+    return [result, context.retries];
+  } finally {
+    if (parent) {
+      parent.retries += context.retries;
+    }
+  }
+}
+
+// Refresh tokens this long before they expire, so a request never goes out with a stale one
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Tokens per provider, keyed by tenant and resource. Pending lookups are cached too,
+// so parallel calls for the same resource share a single `az` invocation.
+const tokenCache = new WeakMap<TokenProvider, Map<string, Promise<AccessToken>>>();
+
+/**
+ * Drop the active token provider's cached tokens, e.g. after switching accounts with `az login`.
+ */
+export function clearTokenCache(): void {
+  const provider = requestContext.getStore()?.tokenProvider ?? defaultTokenProvider;
+  tokenCache.delete(provider);
+}
+
+/**
+ * Decode the claims from a JWT access token's payload.
+ */
+function decodeTokenClaims(token: string): any {
+  // Decode the JWT payload (second part)
+  const parts = token.split(".");
+  if (parts.length < 2) {
+    throw new Error("Invalid token format");
+  }
+  
+  // Add padding if needed for base64 decode
+  let payload = parts[1];
+  const padding = payload.length % 4;
+  if (padding) {
+    payload += "=".repeat(4 - padding);
+  }
+  
+  const decoded = Buffer.from(payload, "base64").toString("utf-8");
+  return JSON.parse(decoded);
+}
+
+/**
+ * Work out when a token expires, falling back to its exp claim when the provider doesn't say.
+ */
+function tokenExpiry(accessToken: AccessToken): Date | undefined {
+  if (accessToken.expiresOn) {
+    return accessToken.expiresOn;
+  }
+  try {
+    const claims = decodeTokenClaims(accessToken.token);
+    return typeof claims.exp === "number" ? new Date(claims.exp * 1000) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get an access token for the given resource from the active token provider.
+ * Tokens are reused until shortly before they expire; forceRefresh skips the cache.
+ */
+async function getAccessToken(resource: string = ARM_RESOURCE, forceRefresh: boolean = false): Promise<string> {
+  const provider = requestContext.getStore()?.tokenProvider ?? defaultTokenProvider;
+
+  let cache = tokenCache.get(provider);
+  if (!cache) {
+    cache = new Map();
+    tokenCache.set(provider, cache);
+  }
+
+  const key = `${provider.tenant ?? ""}|${resource}`;
+  const cached = cache.get(key);
+  if (cached && !forceRefresh) {
+    try {
+      const accessToken = await cached;
+      if (accessToken.expiresOn && accessToken.expiresOn.getTime() - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+        return accessToken.token;
+      }
+    } catch {
+      // The earlier lookup failed; fall through and ask the provider again
+    }
+  }
+
+  const pending = provider.getToken(resource).then((accessToken) => ({
+    ...accessToken,
+    expiresOn: tokenExpiry(accessToken),
+  }));
+  cache.set(key, pending);
+
+  try {
+    const accessToken = await pending;
+    // Tokens with no known expiry can't be safely reused
+    if (!accessToken.expiresOn && cache.get(key) === pending) {
+      cache.delete(key);
+    }
+    return accessToken.token;
+  } catch (error) {
+    if (cache.get(key) === pending) {
+      cache.delete(key);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Work out how long to wait before retrying, honoring Retry-After (seconds or HTTP date)
+ * and otherwise backing off exponentially with full jitter.
+ */
+export function retryDelayMs(policy: RetryPolicy, attempt: number, retryAfter: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delay = Number.isNaN(seconds)
+      ? new Date(retryAfter).getTime() - Date.now()
+      : seconds * 1000;
+    if (!Number.isNaN(delay)) {
+      return Math.min(Math.max(delay, 0), policy.maxDelayMs);
+    }
+  }
+  const backoff = Math.min(policy.baseDelayMs * 2 ** attempt, policy.maxDelayMs);
+  return Math.random() * backoff;
+}
+
+// Methods safe to resend after a failure whose effect is unknown. PUTs are included because
+// ARM requests are named by the client, so a repeated PUT can't create a second request.
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "PUT", "DELETE"];
+
+/**
+ * Whether a failed response may be retried. A 5xx to a POST may mean the request was
+ * processed anyway, so it is only retried when a 503 says when to try again.
+ */
+export function isRetryableResponse(method: string, status: number, retryAfter: string | null): boolean {
+  if (status === 429) {
+    return true;
+  }
+  if (IDEMPOTENT_METHODS.includes(method.toUpperCase())) {
+    return status >= 500;
+  }
+  return status === 503 && retryAfter !== null;
+}
+
+/**
+ * Make an authenticated REST call to Azure Management API or Microsoft Graph using native fetch.
+ * The token resource is picked from the URL's origin.
+ * This avoids shell escaping issues with cmd.exe on Windows (& in URLs, " in JSON bodies).
+ */
+export async function azureRestCall(method: string, url: string, body?: unknown): Promise<unknown> {
+  const resource = new URL(url).origin === GRAPH_RESOURCE ? GRAPH_RESOURCE : ARM_RESOURCE;
+  const context = requestContext.getStore();
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...context?.retry };
+
+  const send = async (forceRefresh: boolean): Promise<Response> => {
+    const token = await getAccessToken(resource, forceRefresh);
+    const options: RequestInit = {
+      method,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        'Accept-Language': 'en-US',
+      },
+    };
+    if (body) {
+      options.body = JSON.stringify(body);
+    }
+    return fetch(url, options);
+  };
+
+  let tokenRefreshed = false;
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await send(false);
+      // A cached token may have been revoked or rejected early; refresh it and try once more
+      if (response.status === 401 && !tokenRefreshed) {
+        console.error("Access token rejected, refreshing and retrying...");
+        tokenRefreshed = true;
+        response = await send(true);
+      }
+    } catch (error) {
+      // fetch rejects with a TypeError on network failures; anything else (e.g. no token) isn't retryable,
+      // and nor is a non-idempotent request that may have reached the service
+      if (
+        !(error instanceof TypeError) ||
+        !IDEMPOTENT_METHODS.includes(method.toUpperCase()) ||
+        attempt >= policy.maxRetries
+      ) {
+        throw error;
+      }
+      const delay = retryDelayMs(policy, attempt, null);
+      console.error(`Network error calling Azure (${error.message}), retrying in ${Math.round(delay)}ms...`);
+      if (context) {
+        context.retries++;
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      continue;
+    }
+
+    const retryAfter = response.headers.get("Retry-After");
+    if (isRetryableResponse(method, response.status, retryAfter) && attempt < policy.maxRetries) {
+      const delay = retryDelayMs(policy, attempt, retryAfter);
+      console.error(`Azure returned ${response.status}, retrying in ${Math.round(delay)}ms...`);
+      if (context) {
+        context.retries++;
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      continue;
+    }
+
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(`Azure REST API error (${response.status}): ${text}`);
+    }
+    return text ? JSON.parse(text) : {};
+  }
+}
+
+// Safety cap on nextLink pages, in case a service keeps returning the same link
+const MAX_PAGES = 100;
+
+/**
+ * GET a list endpoint and yield the value array of each page, following
+ * nextLink (ARM) or @odata.nextLink (Graph) until there are no more pages.
+ */
+export async function* azureRestPages(url: string): AsyncGenerator<any[]> {
+  let nextUrl: string | undefined = url;
+  let pages = 0;
+
+  while (nextUrl) {
+    if (pages >= MAX_PAGES) {
+      console.error(`Warning: stopped after ${MAX_PAGES} pages of results from ${url}`);
+      return;
+    }
+
+    const data = await azureRestCall('GET', nextUrl) as any;
+    pages++;
+
+    if (data.value && Array.isArray(data.value)) {
+      yield data.value;
+    }
+
+    nextUrl = data.nextLink || data["@odata.nextLink"] || undefined;
+  }
+}
+
+/**
+ * Get the current user's principal ID from the access token
+ */
+export async function getCurrentUserPrincipalId(): Promise<string> {
+  try {
+    // Get the access token and extract the oid (object ID) claim
+    const token = await getAccessToken();
+    const claims = decodeTokenClaims(token);
+    
+    if (!claims.oid) {
+      throw new Error("No oid claim in token");
+    }
+    
+    return claims.oid;
+  } catch (error) {
+    console.error("Failed to get user principal ID from token:", error);
+    throw error;
+  }
+}
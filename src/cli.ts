@@ -0,0 +1,506 @@
+#!/usr/bin/env node
+import { parseArgs } from "util";
+import {
+  listEligibleRoles,
+  listActiveRoles,
+  activateRoles,
+  activateQuickRoles,
+  deactivateRoles,
+  deactivateAllRoles,
+  loadPimOptions,
+  loadQuickRoleProfiles,
+  loadQuickRolesConfig,
+  watchRoles,
+  getEffectiveConfig,
+  queryAuditLog,
+  listRoleRequests,
+  cancelRequest,
+  describeActivationPolicy,
+  type PimOptions,
+  type RoleConfig,
+  type ActiveRoleAssignment,
+  type CliActivationResult,
+  type CliDeactivationResult,
+} from "./index.js";
+
+/**
+ * pim-me: the library as a command-line tool, for scripts and terminals without an MCP client.
+ * Results go to stdout (as tables, or as the library's result objects with --json) and
+ * progress logs to stderr. The exit code is 0 on success, 1 if anything failed and 2 for usage errors.
+ */
+
+const USAGE = `Usage: pim-me <command> [options]
+
+Commands:
+  list                            List eligible roles (--policies to include activation requirements)
+  active                          List active roles and scheduled activations
+  activate <role[@scope]>...      Activate roles, e.g. "Contributor@my-subscription"
+  deactivate <role[@scope]>...    Deactivate active roles (--all for every active role)
+  quick [profile]                 Activate a quick role profile (default: the default profile; --list to show profiles)
+  watch [profile]                 Keep a quick role profile's roles elevated, renewing them before they expire
+  config                          Show every effective setting and the layer it came from
+  history [role]                  Show recorded elevations, newest first, optionally for matching roles only
+  requests                        List your PIM requests with status and approver (--pending for cancellable ones)
+  cancel <requestId>              Cancel a request that is pending approval, not yet provisioned or scheduled
+
+Options:
+  -j, --justification <text>      Justification for activation (quick: defaults to the profile's)
+  -d, --duration <hours>          Activation duration in hours (default: 8, or the profile's default)
+      --ticket <number>           Change ticket number, for roles whose policy requires one
+      --ticket-system <name>      The system the ticket lives in (e.g., ServiceNow)
+      --start <datetime>          Schedule the activation to start at this ISO 8601 time
+      --end <datetime>            End the activation at this ISO 8601 time instead of after a duration
+      --wait                      Wait until activated roles are provisioned
+      --dry-run                   activate, quick: show what would be requested without submitting anything
+      --all                       deactivate: every active role
+      --list                      quick: list profiles instead of activating
+      --policies                  list: include each role's activation requirements
+      --interval <seconds>        watch: how often to check active roles (default: 60)
+      --renew-before <minutes>    watch: renew roles with less than this long left (default: 15)
+      --max-renewals <count>      watch: renewals allowed per role per day (default: 3)
+      --since <datetime>          history: only elevations at or after this ISO 8601 date or time
+      --until <datetime>          history: only elevations at or before this ISO 8601 date or time
+      --limit <count>             history, requests: show at most this many entries
+      --pending                   requests: only requests that can still be cancelled
+      --json                      Print results as JSON
+  -h, --help                      Show this help
+`;
+
+class UsageError extends Error {}
+
+type Flags = ReturnType<typeof parseCommandLine>["values"];
+
+function parseCommandLine(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      justification: { type: "string", short: "j" },
+      duration: { type: "string", short: "d" },
+      ticket: { type: "string" },
+      "ticket-system": { type: "string" },
+      start: { type: "string" },
+      end: { type: "string" },
+      wait: { type: "boolean" },
+      "dry-run": { type: "boolean" },
+      all: { type: "boolean" },
+      list: { type: "boolean" },
+      policies: { type: "boolean" },
+      interval: { type: "string" },
+      "renew-before": { type: "string" },
+      "max-renewals": { type: "string" },
+      since: { type: "string" },
+      until: { type: "string" },
+      limit: { type: "string" },
+      pending: { type: "boolean" },
+      json: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+}
+
+/**
+ * Library options for the CLI's calls, so the audit log records them as made by the CLI
+ */
+async function cliOptions(): Promise<PimOptions> {
+  return { ...(await loadPimOptions()), client: "cli" };
+}
+
+/**
+ * Parse "name" or "name@scope"; a role without a scope matches at any scope
+ */
+function parseRoleSpec(spec: string): RoleConfig {
+  const at = spec.indexOf("@");
+  return at === -1
+    ? { name: spec.trim(), scope: "" }
+    : { name: spec.slice(0, at).trim(), scope: spec.slice(at + 1).trim() };
+}
+
+function parsePositive(option: string, value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new UsageError(`--${option} must be a positive number, got "${value}"`);
+  }
+  return number;
+}
+
+/**
+ * Lay rows out in columns under a header row
+ */
+function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => (row[i] ?? "").length))
+  );
+  const line = (cells: string[]) =>
+    cells.map((cell, i) => (cell ?? "").padEnd(widths[i])).join("  ").trimEnd();
+  return [line(headers), line(widths.map((w) => "-".repeat(w))), ...rows.map(line)].join("\n");
+}
+
+function formatTime(dateTime: string | undefined): string {
+  return dateTime ? new Date(dateTime).toLocaleString() : "";
+}
+
+function activeRoleRows(roles: ActiveRoleAssignment[]): string[][] {
+  return roles.map((r) => [r.roleName, r.scopeName, r.roleSource, formatTime(r.startDateTime), formatTime(r.endDateTime)]);
+}
+
+function printPlan(result: CliActivationResult) {
+  const plan = result.plan ?? [];
+  if (plan.length > 0) {
+    console.log(formatTable(
+      ["Role", "Resolved to", "Member", "Duration", "Start", "Expected", "Reason"],
+      plan.map((p) => [
+        p.role,
+        p.roleName ? `${p.roleName} (${p.scopeName})` : "",
+        p.memberType ?? "",
+        p.durationHours !== undefined ? `${p.durationHours}h` : "",
+        formatTime(p.startDateTime),
+        p.expectedOutcome,
+        p.reason ?? "",
+      ])
+    ));
+    console.log();
+  }
+  for (const warning of result.warnings) {
+    console.log(`Warning: ${warning.role}: ${warning.message}`);
+  }
+  console.log(result.message);
+}
+
+/**
+ * Print an activation or deactivation result: one row per role, then warnings and the summary
+ */
+function printRoleRequestResult(result: CliActivationResult | CliDeactivationResult) {
+  if ("plan" in result && result.plan) {
+    printPlan(result);
+    return;
+  }
+  const succeeded: [string, string[]][] = "deactivatedRoles" in result
+    ? [["deactivated", result.deactivatedRoles]]
+    : [
+        ["activated", result.activatedRoles],
+        ["pending approval", result.pendingApprovalRoles],
+        ["submitted", result.submittedRoles],
+        ["scheduled", result.scheduledRoles],
+      ];
+  const rows = [
+    ...succeeded.flatMap(([state, roles]) => roles.map((role) => [role, state, ""])),
+    ...result.failedRoles.map((f) => [f.role, "failed", f.error]),
+  ];
+  if (rows.length > 0) {
+    console.log(formatTable(["Role", "State", "Error"], rows));
+    console.log();
+  }
+  for (const warning of result.warnings) {
+    console.log(`Warning: ${warning.role}: ${warning.message}`);
+  }
+  console.log(result.message);
+}
+
+/**
+ * Run one command and return its exit code
+ */
+async function run(command: string | undefined, positionals: string[], flags: Flags): Promise<number> {
+  const json = flags.json ?? false;
+
+  switch (command) {
+    case "list": {
+      const result = await listEligibleRoles({ ...(await cliOptions()), includePolicies: flags.policies });
+      if (json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else if (result.roles.length > 0) {
+        const headers = ["#", "Role", "Scope", "Source", "Member"];
+        console.log(formatTable(
+          flags.policies ? [...headers, "Requires"] : headers,
+          result.roles.map((r, i) => [
+            String(i + 1),
+            r.roleName,
+            r.scopeName,
+            r.roleSource,
+            r.memberType,
+            ...(flags.policies ? [r.policy ? describeActivationPolicy(r.policy) : "unknown"] : []),
+          ])
+        ));
+      } else {
+        console.log(result.message);
+      }
+      return result.success ? 0 : 1;
+    }
+
+    case "active": {
+      const result = await listActiveRoles(await cliOptions());
+      if (json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else if (result.roles.length === 0 && result.scheduledRoles.length === 0) {
+        console.log(result.message);
+      } else {
+        const headers = ["Role", "Scope", "Source", "Start", "End"];
+        if (result.roles.length > 0) {
+          console.log(formatTable(headers, activeRoleRows(result.roles)));
+        }
+        if (result.scheduledRoles.length > 0) {
+          console.log(`${result.roles.length > 0 ? "\n" : ""}Scheduled:`);
+          console.log(formatTable(headers, activeRoleRows(result.scheduledRoles)));
+        }
+      }
+      return result.success ? 0 : 1;
+    }
+
+    case "activate":
+    case "quick": {
+      const activationOptions = {
+        ...(await cliOptions()),
+        waitForProvisioning: flags.wait,
+        dryRun: flags["dry-run"],
+        ticketNumber: flags.ticket,
+        ticketSystem: flags["ticket-system"],
+        startDateTime: flags.start,
+        endDateTime: flags.end,
+      };
+      const duration = parsePositive("duration", flags.duration);
+
+      let result: CliActivationResult;
+      if (command === "activate") {
+        if (positionals.length === 0) {
+          throw new UsageError("activate needs at least one role, e.g. pim-me activate Contributor@my-subscription");
+        }
+        if (!flags.justification) {
+          throw new UsageError("activate needs a --justification");
+        }
+        result = await activateRoles(positionals.map(parseRoleSpec), flags.justification, duration, activationOptions);
+      } else {
+        if (flags.list) {
+          return listProfiles(json);
+        }
+        if (positionals.length > 1) {
+          throw new UsageError("quick takes at most one profile name");
+        }
+        result = await activateQuickRoles(flags.justification, duration, {
+          ...activationOptions,
+          profile: positionals[0],
+        });
+      }
+
+      if (json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        printRoleRequestResult(result);
+      }
+      return result.success && result.failedRoles.length === 0 ? 0 : 1;
+    }
+
+    case "deactivate": {
+      if (!flags.all && positionals.length === 0) {
+        throw new UsageError("deactivate needs at least one role, or --all");
+      }
+      const options = await cliOptions();
+      const result = flags.all
+        ? await deactivateAllRoles(options)
+        : await deactivateRoles(positionals.map(parseRoleSpec), options);
+      if (json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        printRoleRequestResult(result);
+      }
+      return result.success && result.failedRoles.length === 0 ? 0 : 1;
+    }
+
+    case "watch": {
+      if (positionals.length > 1) {
+        throw new UsageError("watch takes at most one profile name");
+      }
+      const profile = loadQuickRolesConfig(positionals[0]);
+      if (!profile) {
+        throw new Error(
+          positionals[0]
+            ? `Quick role profile "${positionals[0]}" is not configured`
+            : "Quick roles are not configured. Save a profile first, e.g. with the MCP server's save_quick_roles tool."
+        );
+      }
+      const justification = flags.justification || profile.defaultJustification;
+      if (!justification) {
+        throw new UsageError("watch needs a --justification, or a profile with a default justification");
+      }
+
+      // Watch until interrupted, then report how the renewals went
+      const controller = new AbortController();
+      process.once("SIGINT", () => controller.abort());
+      process.once("SIGTERM", () => controller.abort());
+
+      const renewals = await watchRoles(profile.roles, justification, {
+        ...(await cliOptions()),
+        durationHours: parsePositive("duration", flags.duration) ?? profile.defaultDurationHours,
+        pollIntervalSeconds: parsePositive("interval", flags.interval),
+        renewBeforeMinutes: parsePositive("renew-before", flags["renew-before"]),
+        maxRenewalsPerDay: parsePositive("max-renewals", flags["max-renewals"]),
+        ticketNumber: flags.ticket,
+        ticketSystem: flags["ticket-system"] ?? profile.defaultTicketSystem,
+        signal: controller.signal,
+        onRenewal: (renewal) => console.log(
+          json
+            ? JSON.stringify(renewal)
+            : `${renewal.timestamp}  ${renewal.action}  ${renewal.role}  ${renewal.success ? "ok" : "failed"}  ${renewal.message}`
+        ),
+      });
+      return renewals.every((r) => r.success) ? 0 : 1;
+    }
+
+    case "config": {
+      const effective = getEffectiveConfig();
+      if (json) {
+        console.log(JSON.stringify(effective, null, 2));
+      } else if (effective.values.length === 0) {
+        console.log("No configuration is set. Settings can come from environment variables, ./.pim-me-mcp.json or ~/.pim-me-mcp.json.");
+      } else {
+        console.log(formatTable(
+          ["Setting", "Value", "Layer", "Source"],
+          effective.values.map((v) => [v.key, JSON.stringify(v.value), v.layer, v.source])
+        ));
+      }
+      return 0;
+    }
+
+    case "history": {
+      if (positionals.length > 1) {
+        throw new UsageError("history takes at most one role filter");
+      }
+      const limit = parsePositive("limit", flags.limit);
+      const result = queryAuditLog({
+        since: flags.since,
+        until: flags.until,
+        role: positionals[0],
+        limit: limit !== undefined ? Math.floor(limit) : undefined,
+      });
+      if (json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else if (result.entries.length > 0) {
+        console.log(formatTable(
+          ["Time", "Action", "Role", "Scope", "Outcome", "Client", "Justification"],
+          result.entries.map((e) => [
+            formatTime(e.timestamp),
+            e.action,
+            e.role,
+            e.scopeName ?? e.scope,
+            e.outcome,
+            e.client,
+            e.justification ?? "",
+          ])
+        ));
+        console.log();
+        console.log(result.message);
+      } else {
+        console.log(result.message);
+      }
+      return result.success ? 0 : 1;
+    }
+
+    case "requests": {
+      const limit = parsePositive("limit", flags.limit);
+      const result = await listRoleRequests({
+        ...(await cliOptions()),
+        pendingOnly: flags.pending,
+        limit: limit !== undefined ? Math.floor(limit) : undefined,
+      });
+      if (json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else if (result.requests.length > 0) {
+        console.log(formatTable(
+          ["Requested", "Type", "Role", "Scope", "Status", "Approver", "Request ID"],
+          result.requests.map((r) => [
+            formatTime(r.createdDateTime),
+            r.requestType,
+            r.roleName,
+            r.scopeName,
+            r.cancellable ? `${r.status} (cancellable)` : r.status,
+            r.approver ?? "",
+            r.requestId,
+          ])
+        ));
+        console.log();
+        console.log(result.message);
+      } else {
+        console.log(result.message);
+      }
+      return result.success ? 0 : 1;
+    }
+
+    case "cancel": {
+      if (positionals.length !== 1) {
+        throw new UsageError("cancel needs one request ID, as shown by pim-me requests --pending");
+      }
+      const options = await cliOptions();
+      // Look the request up to know which API it belongs to
+      const pending = await listRoleRequests({ ...options, pendingOnly: true });
+      if (!pending.success) {
+        throw new Error(pending.message);
+      }
+      const request = pending.requests.find((r) => r.requestId.toLowerCase() === positionals[0].toLowerCase());
+      if (!request) {
+        throw new Error(`No pending or scheduled request ${positionals[0]}`);
+      }
+      const result = await cancelRequest(request, options);
+      if (json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        console.log(result.success ? `Cancelled the ${request.requestType} request for ${request.roleName} (${request.scopeName})` : result.message);
+      }
+      return result.success ? 0 : 1;
+    }
+
+    default:
+      throw new UsageError(command ? `Unknown command: ${command}` : "No command given");
+  }
+}
+
+function listProfiles(json: boolean): number {
+  const config = loadQuickRoleProfiles();
+  if (json) {
+    console.log(JSON.stringify(config ?? { profiles: {} }, null, 2));
+  } else if (!config || Object.keys(config.profiles).length === 0) {
+    console.log("No quick role profiles are configured.");
+  } else {
+    console.log(formatTable(
+      ["Profile", "Roles", "Duration", "Description"],
+      Object.entries(config.profiles).map(([name, profile]) => [
+        name === config.defaultProfile ? `${name} (default)` : name,
+        profile.roles.map((r) => (r.scope ? `${r.name}@${r.scope}` : r.name)).join(", "),
+        profile.defaultDurationHours !== undefined ? `${profile.defaultDurationHours}h` : "",
+        profile.description ?? "",
+      ])
+    ));
+  }
+  return 0;
+}
+
+async function main() {
+  let parsed: ReturnType<typeof parseCommandLine>;
+  try {
+    parsed = parseCommandLine(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+    process.exit(2);
+  }
+
+  const [command, ...positionals] = parsed.positionals;
+  if (parsed.values.help || command === "help") {
+    console.log(USAGE);
+    return;
+  }
+
+  try {
+    process.exitCode = await run(command, positionals, parsed.values);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exitCode = 2;
+      return;
+    }
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  }
+}
+
+main();
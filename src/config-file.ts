@@ -0,0 +1,196 @@
+import { readFileSync, writeFileSync, existsSync } from "fs";
+import { z } from "zod";
+import type { QuickRolesConfig, RoleConfig } from "./index.js";
+import { TENANT_PATTERN, type TokenProviderConfig } from "./token-provider.js";
+import type { RetryPolicy } from "./azure-rest.js";
+import type { ExpiryNotificationSettings } from "./expiry-monitor.js";
+import type { AuditLogSettings } from "./audit-log.js";
+
+/**
+ * The .pim-me-mcp.json file format.
+ * Every file is validated against the schema below after migrating it to CONFIG_VERSION,
+ * so the rest of the library can trust its shape. Unknown top-level settings are kept as-is.
+ */
+
+/**
+ * Current config file format version. Files without a version are version 1.
+ */
+export const CONFIG_VERSION = 2;
+
+/**
+ * Name of the profile an older single "quickRoles" block is migrated to
+ */
+export const DEFAULT_PROFILE_NAME = "default";
+
+const roleConfigSchema: z.ZodType<RoleConfig> = z.object({
+  name: z.string(),
+  scope: z.string(),
+  roleSource: z.enum(["azureResource", "directory", "group"]).optional(),
+  id: z.string().optional(),
+  durationHours: z.number().positive().optional(),
+});
+
+export const quickRolesConfigSchema: z.ZodType<QuickRolesConfig> = z.object({
+  roles: z.array(roleConfigSchema),
+  description: z.string().optional(),
+  defaultJustification: z.string().optional(),
+  defaultDurationHours: z.number().positive().optional(),
+  defaultTicketSystem: z.string().optional(),
+});
+
+const tokenProviderConfigSchema: z.ZodType<TokenProviderConfig> = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("azureCli"),
+    tenant: z.string().regex(TENANT_PATTERN, "Expected a tenant ID (GUID) or domain name").optional(),
+  }),
+  z.object({ type: z.literal("static"), envVar: z.string().optional(), file: z.string().optional() }),
+  z.object({ type: z.literal("module"), path: z.string(), export: z.string().optional() }),
+]);
+
+const retrySchema: z.ZodType<Partial<RetryPolicy>> = z.object({
+  maxRetries: z.number().int().nonnegative().optional(),
+  baseDelayMs: z.number().nonnegative().optional(),
+  maxDelayMs: z.number().nonnegative().optional(),
+});
+
+const expiryNotificationsSchema: z.ZodType<ExpiryNotificationSettings> = z.object({
+  enabled: z.boolean().optional(),
+  warnBeforeMinutes: z.array(z.number().positive()).optional(),
+  pollIntervalSeconds: z.number().positive().optional(),
+});
+
+const auditLogSchema: z.ZodType<AuditLogSettings> = z.object({
+  enabled: z.boolean().optional(),
+  path: z.string().min(1).optional(),
+});
+
+export const configFileSchema = z
+  .object({
+    version: z.literal(CONFIG_VERSION),
+    profiles: z.record(quickRolesConfigSchema).optional(),
+    defaultProfile: z.string().optional(),
+    tokenProvider: tokenProviderConfigSchema.optional(),
+    retry: retrySchema.optional(),
+    expiryNotifications: expiryNotificationsSchema.optional(),
+    auditLog: auditLogSchema.optional(),
+  })
+  // defaultProfile may name a profile from another layer, so it isn't checked against profiles here
+  .passthrough();
+
+export type ConfigFile = z.infer<typeof configFileSchema>;
+
+/**
+ * A config file that could not be read, parsed or validated
+ */
+export class ConfigFileError extends Error {
+  constructor(
+    /** The config file */
+    readonly filePath: string,
+    /** One entry per problem, e.g. "$.profiles.daily.roles[0].name: Required" */
+    readonly issues: string[]
+  ) {
+    super(`Invalid config file ${filePath}:\n  ${issues.join("\n  ")}`);
+    this.name = "ConfigFileError";
+  }
+}
+
+/**
+ * Migrations from each version to the next, applied in order to the raw JSON
+ */
+const migrations: Record<number, (config: any) => any> = {
+  // Version 1 had a single "quickRoles" block; it becomes the "default" profile
+  1: (config) => {
+    const { quickRoles, ...rest } = config;
+    const migrated: any = { ...rest, version: 2 };
+    if (quickRoles && !migrated.profiles) {
+      migrated.profiles = { [DEFAULT_PROFILE_NAME]: quickRoles };
+      migrated.defaultProfile ??= DEFAULT_PROFILE_NAME;
+    }
+    return migrated;
+  },
+};
+
+function formatJsonPath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (result, part) =>
+      typeof part === "number"
+        ? `${result}[${part}]`
+        : /^[A-Za-z_$][\w$]*$/.test(part)
+          ? `${result}.${part}`
+          : `${result}[${JSON.stringify(part)}]`,
+    "$"
+  );
+}
+
+/**
+ * Describe each schema violation with its JSON path, e.g. "$.profiles.daily.roles[0].name: Required"
+ */
+export function validationIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${formatJsonPath(issue.path)}: ${issue.message}`);
+}
+
+/**
+ * Bring raw config JSON up to CONFIG_VERSION and validate it
+ */
+export function parseConfig(raw: unknown, filePath: string): ConfigFile {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new ConfigFileError(filePath, ["$: Expected a JSON object"]);
+  }
+
+  let config: any = raw;
+  let version = config.version ?? 1;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new ConfigFileError(filePath, [`$.version: Expected a positive integer, received ${JSON.stringify(version)}`]);
+  }
+  if (version > CONFIG_VERSION) {
+    throw new ConfigFileError(filePath, [
+      `$.version: Version ${version} was written by a newer pim-me-mcp; this version reads up to ${CONFIG_VERSION}`,
+    ]);
+  }
+  while (version < CONFIG_VERSION) {
+    config = migrations[version](config);
+    version++;
+  }
+
+  const result = configFileSchema.safeParse(config);
+  if (!result.success) {
+    throw new ConfigFileError(filePath, validationIssues(result.error));
+  }
+  return result.data;
+}
+
+/**
+ * Read and validate a config file, migrating older formats in memory.
+ *
+ * @returns The config, or undefined if the file does not exist
+ * @throws ConfigFileError if the file is not valid JSON or does not match the schema
+ */
+export function readConfigFile(filePath: string): ConfigFile | undefined {
+  if (!existsSync(filePath)) {
+    return undefined;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigFileError(filePath, [`$: Not valid JSON (${reason})`]);
+  }
+  return parseConfig(raw, filePath);
+}
+
+/**
+ * Read a config file (or start an empty one), apply an update and write it back
+ * in the current format. The updated config is validated before anything is written,
+ * and a file that can't be read or validated is left untouched.
+ *
+ * @throws ConfigFileError if the existing file or the updated config is invalid
+ */
+export function updateConfigFile(filePath: string, update: (config: ConfigFile) => void): ConfigFile {
+  const config = readConfigFile(filePath) ?? { version: CONFIG_VERSION };
+  update(config);
+  const validated = parseConfig(config, filePath);
+  writeFileSync(filePath, JSON.stringify(validated, null, 2), "utf-8");
+  return validated;
+}
@@ -0,0 +1,177 @@
+import { homedir } from "os";
+import { join } from "path";
+import {
+  readConfigFile,
+  quickRolesConfigSchema,
+  validationIssues,
+  ConfigFileError,
+  DEFAULT_PROFILE_NAME,
+  type ConfigFile,
+} from "./config-file.js";
+
+/**
+ * Layered configuration: settings come from environment variables, the project's
+ * ./.pim-me-mcp.json and the user's ~/.pim-me-mcp.json, highest first.
+ *
+ * Merge rules:
+ * - profiles merge by name; a profile in a higher layer replaces the same-named profile below it
+ * - retry, expiryNotifications and auditLog settings merge field by field
+ * - every other setting (defaultProfile, ...) is taken whole from the highest layer that sets it
+ *
+ * tokenProvider and auditLog are only read from the user file. A project file comes with
+ * whatever repository was cloned, so it must not be able to load code that receives the
+ * user's Azure tokens, or to turn off or redirect the record of their elevations.
+ */
+
+export type ConfigLayer = "env" | "project" | "user";
+
+/**
+ * One effective setting and where it came from
+ */
+export interface EffectiveConfigValue {
+  /** Setting name, e.g. "defaultProfile", "profiles.daily-dev" or "retry.maxRetries" */
+  key: string;
+  value: unknown;
+  layer: ConfigLayer;
+  /** Config file path, or the environment variable name for the env layer */
+  source: string;
+}
+
+export interface EffectiveConfig {
+  /** The merged settings */
+  config: Partial<ConfigFile>;
+  /** Every effective setting with its layer and source, in key order */
+  values: EffectiveConfigValue[];
+}
+
+const CONFIG_FILE_NAME = ".pim-me-mcp.json";
+
+// Settings merged one level down, keyed "<setting>.<name>"
+const NESTED_SETTINGS = ["profiles", "retry", "expiryNotifications", "auditLog"];
+
+// Settings ignored in the project file (see above)
+const USER_ONLY_SETTINGS = ["tokenProvider", "auditLog"];
+
+export function projectConfigPath(): string {
+  return join(process.cwd(), CONFIG_FILE_NAME);
+}
+
+export function userConfigPath(): string {
+  return join(homedir(), CONFIG_FILE_NAME);
+}
+
+/**
+ * Split a config into one entry per mergeable setting
+ */
+function flattenConfig(config: Partial<ConfigFile>): [string, unknown][] {
+  const entries: [string, unknown][] = [];
+  for (const [key, value] of Object.entries(config)) {
+    if (key === "version" || value === undefined) {
+      continue;
+    }
+    if (NESTED_SETTINGS.includes(key) && value && typeof value === "object") {
+      for (const [name, nested] of Object.entries(value)) {
+        entries.push([`${key}.${name}`, nested]);
+      }
+    } else {
+      entries.push([key, value]);
+    }
+  }
+  return entries;
+}
+
+function unflattenConfig(values: EffectiveConfigValue[]): Partial<ConfigFile> {
+  const config: Record<string, any> = {};
+  for (const { key, value } of values) {
+    const dot = key.indexOf(".");
+    const parent = dot === -1 ? undefined : key.slice(0, dot);
+    if (parent && NESTED_SETTINGS.includes(parent)) {
+      config[parent] ??= {};
+      config[parent][key.slice(dot + 1)] = value;
+    } else {
+      config[key] = value;
+    }
+  }
+  return config;
+}
+
+/**
+ * Settings from environment variables: PIM_QUICK_ROLES (plus PIM_QUICK_ROLES_DESC,
+ * PIM_DEFAULT_JUSTIFICATION and PIM_DEFAULT_TICKET_SYSTEM when it is a bare array)
+ * becomes the "default" profile, and PIM_DEFAULT_PROFILE picks the default profile.
+ */
+function envLayer(): EffectiveConfigValue[] {
+  const values: EffectiveConfigValue[] = [];
+
+  const envRoles = process.env.PIM_QUICK_ROLES;
+  if (envRoles) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(envRoles);
+    } catch (e) {
+      throw new ConfigFileError("PIM_QUICK_ROLES", ["$: Not valid JSON"]);
+    }
+    const result = quickRolesConfigSchema.safeParse(
+      Array.isArray(parsed)
+        ? {
+            roles: parsed,
+            description: process.env.PIM_QUICK_ROLES_DESC,
+            defaultJustification: process.env.PIM_DEFAULT_JUSTIFICATION,
+            defaultTicketSystem: process.env.PIM_DEFAULT_TICKET_SYSTEM,
+          }
+        : parsed
+    );
+    if (!result.success) {
+      throw new ConfigFileError("PIM_QUICK_ROLES", validationIssues(result.error));
+    }
+    values.push(
+      { key: `profiles.${DEFAULT_PROFILE_NAME}`, value: result.data, layer: "env", source: "PIM_QUICK_ROLES" },
+      { key: "defaultProfile", value: DEFAULT_PROFILE_NAME, layer: "env", source: "PIM_QUICK_ROLES" }
+    );
+  }
+
+  const envDefaultProfile = process.env.PIM_DEFAULT_PROFILE;
+  if (envDefaultProfile) {
+    values.push({ key: "defaultProfile", value: envDefaultProfile, layer: "env", source: "PIM_DEFAULT_PROFILE" });
+  }
+
+  return values;
+}
+
+function fileLayer(layer: ConfigLayer, filePath: string): EffectiveConfigValue[] {
+  const config = readConfigFile(filePath);
+  if (!config) {
+    return [];
+  }
+  return flattenConfig(config)
+    .filter(([key]) => layer !== "project" || !USER_ONLY_SETTINGS.includes(key.split(".")[0]))
+    .map(([key, value]) => ({ key, value, layer, source: filePath }));
+}
+
+/**
+ * Merge every config layer into the effective configuration, recording where each setting came from.
+ * The project layer is skipped when the current directory is the home directory.
+ *
+ * @throws ConfigFileError if any layer is invalid, naming the file (or variable) and JSON path
+ */
+export function getEffectiveConfig(): EffectiveConfig {
+  const projectPath = projectConfigPath();
+  const userPath = userConfigPath();
+
+  // Lowest layer first, so higher layers overwrite
+  const layers = [
+    fileLayer("user", userPath),
+    projectPath === userPath ? [] : fileLayer("project", projectPath),
+    envLayer(),
+  ];
+
+  const merged = new Map<string, EffectiveConfigValue>();
+  for (const layer of layers) {
+    for (const value of layer) {
+      merged.set(value.key, value);
+    }
+  }
+
+  const values = [...merged.values()].sort((a, b) => a.key.localeCompare(b.key));
+  return { config: unflattenConfig(values), values };
+}
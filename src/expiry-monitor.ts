@@ -0,0 +1,166 @@
+import type { ActiveRoleAssignment, CliListActiveRolesResult } from "./pim-cli.js";
+
+/**
+ * Background tracking of active roles for the MCP server, so it can warn before an elevation
+ * runs out instead of only answering requests. Each warning threshold fires once per activation;
+ * an extension (a new endDateTime) re-arms them. It is off unless enabled in the config, and a
+ * poll only logs when it fails.
+ */
+
+/**
+ * The "expiryNotifications" block of .pim-me-mcp.json
+ */
+export interface ExpiryNotificationSettings {
+  /** Set to true to turn expiry notifications on (default: false) */
+  enabled?: boolean;
+  /** Warn when a role has this many minutes left, once per threshold (default: [15, 5]) */
+  warnBeforeMinutes?: number[];
+  /** How often to check the active roles (default: 60 seconds) */
+  pollIntervalSeconds?: number;
+}
+
+export const DEFAULT_EXPIRY_NOTIFICATION_SETTINGS: Required<ExpiryNotificationSettings> = {
+  enabled: false,
+  warnBeforeMinutes: [15, 5],
+  pollIntervalSeconds: 60,
+};
+
+export interface ExpiryEvent {
+  kind: "expiring" | "expired";
+  role: ActiveRoleAssignment;
+  /** Whole minutes left, for "expiring" */
+  minutesLeft?: number;
+  message: string;
+}
+
+interface TrackedRole {
+  role: ActiveRoleAssignment;
+  /** Thresholds already warned about for this endDateTime */
+  warned: Set<number>;
+  /** Already reported as expired, while it's still listed */
+  expired?: boolean;
+}
+
+function roleLabel(role: ActiveRoleAssignment): string {
+  return `${role.roleName} (${role.scopeName})`;
+}
+
+/**
+ * Compare the latest active roles with the tracked ones and return the events due
+ */
+function checkExpiry(
+  tracked: Map<string, TrackedRole>,
+  roles: ActiveRoleAssignment[],
+  thresholds: number[],
+  now: number
+): ExpiryEvent[] {
+  const events: ExpiryEvent[] = [];
+  const seen = new Set<string>();
+
+  for (const role of roles) {
+    if (!role.endDateTime) {
+      continue;
+    }
+    const key = `${role.roleSource}|${role.roleDefinitionId}|${role.scope}`.toLowerCase();
+    seen.add(key);
+
+    let entry = tracked.get(key);
+    if (!entry || entry.role.endDateTime !== role.endDateTime) {
+      entry = { role, warned: new Set() };
+      tracked.set(key, entry);
+    }
+
+    const msLeft = new Date(role.endDateTime).getTime() - now;
+    if (msLeft <= 0) {
+      if (!entry.expired) {
+        entry.expired = true;
+        events.push({ kind: "expired", role, message: `${roleLabel(role)} has expired` });
+      }
+      continue;
+    }
+
+    // Only the tightest threshold crossed is reported, so a late first poll doesn't warn twice
+    const crossed = thresholds.filter((t) => msLeft <= t * 60 * 1000 && !entry!.warned.has(t));
+    if (crossed.length > 0) {
+      crossed.forEach((t) => entry!.warned.add(t));
+      const minutesLeft = Math.ceil(msLeft / 60000);
+      events.push({
+        kind: "expiring",
+        role,
+        minutesLeft,
+        message: `${roleLabel(role)} expires in ${minutesLeft} minute(s), at ${role.endDateTime}`,
+      });
+    }
+  }
+
+  // A role that dropped out of the list at or after its end time has expired; earlier, it was deactivated
+  for (const [key, entry] of tracked) {
+    if (seen.has(key)) {
+      continue;
+    }
+    tracked.delete(key);
+    if (!entry.expired && new Date(entry.role.endDateTime!).getTime() <= now + 60 * 1000) {
+      events.push({ kind: "expired", role: entry.role, message: `${roleLabel(entry.role)} has expired` });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Poll the active roles in the background and report roles nearing or reaching their end time.
+ *
+ * @param settings - Thresholds and poll interval, merged over the defaults
+ * @param listActive - Reads the current active roles
+ * @param onEvent - Called for each expiry warning or expiry
+ * @returns Function that stops the monitor
+ */
+export function startExpiryMonitor(
+  settings: ExpiryNotificationSettings | undefined,
+  listActive: () => Promise<CliListActiveRolesResult>,
+  onEvent: (event: ExpiryEvent) => void
+): () => void {
+  const { enabled, warnBeforeMinutes, pollIntervalSeconds } = { ...DEFAULT_EXPIRY_NOTIFICATION_SETTINGS, ...settings };
+  if (!enabled) {
+    return () => {};
+  }
+
+  const tracked = new Map<string, TrackedRole>();
+  let lastError: string | undefined;
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+
+  const poll = async () => {
+    try {
+      const result = await listActive();
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+      lastError = undefined;
+      for (const event of checkExpiry(tracked, result.roles, warnBeforeMinutes, Date.now())) {
+        onEvent(event);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      // Log a failing poll once rather than every interval
+      if (errorMessage !== lastError) {
+        console.error(`Expiry check failed: ${errorMessage}`);
+        lastError = errorMessage;
+      }
+    }
+
+    if (!stopped) {
+      timer = setTimeout(poll, pollIntervalSeconds * 1000);
+      // Don't keep the process alive just to poll
+      timer.unref();
+    }
+  };
+
+  console.error(`Watching active roles for expiry (warning ${warnBeforeMinutes.join(", ")} minute(s) before)`);
+  void poll();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
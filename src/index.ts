@@ -3,7 +3,8 @@
  * 
  * This module provides programmatic access to Azure PIM (Privileged Identity Management)
  * role activation functionality. Use it to list eligible roles, check active elevations,
- * and activate roles from your own code.
+ * and activate roles from your own code. Azure resource roles, Entra ID directory
+ * roles and PIM for Groups memberships/ownerships are all supported.
  * 
  * @example
  * ```typescript
@@ -23,31 +24,106 @@
  *   'Development work',
  *   8 // hours
  * );
+ * 
+ * // Drop the elevation once the work is done
+ * await deactivateRoles([{ name: 'Contributor', scope: 'my-subscription' }]);
  * ```
  */
 
-import { readFileSync, writeFileSync, existsSync } from "fs";
-import { homedir } from "os";
-import { join } from "path";
 
 // Re-export types from pim-cli
 export {
+  RoleSource,
   PimRoleAssignment,
   ActiveRoleAssignment,
+  CliRoleRequestResult,
   CliActivationResult,
+  CliDeactivationResult,
+  CliExtensionResult,
   CliListRolesResult,
   CliListActiveRolesResult,
+  CliResolveRolesResult,
+  PlannedActivation,
+  PimRoleRequest,
+  CliListRequestsResult,
+  CliCancelRequestResult,
+  ActivationOptions,
 } from "./pim-cli.js";
+export { RoleMatchKind, RoleResolution } from "./role-resolver.js";
+export { ActivationState, ActivationRequest, TicketInfo } from "./activation-state.js";
+export { ActivationPolicy, describeActivationPolicy } from "./pim-policy.js";
+export { RoleRenewal } from "./role-watcher.js";
+export {
+  AuditEntry,
+  AuditAction,
+  AuditOutcome,
+  AuditLogQuery,
+  AuditLogQueryResult,
+  AuditLogSettings,
+  auditLogPath,
+} from "./audit-log.js";
+
+// Re-export token providers
+export {
+  AccessToken,
+  TokenProvider,
+  StaticTokenSource,
+  TokenProviderConfig,
+  azureCliTokenProvider,
+  staticTokenProvider,
+  functionTokenProvider,
+  createTokenProvider,
+} from "./token-provider.js";
 
 // Import the internal CLI functions
 import {
   listEligibleRolesCli,
   listActiveRolesCli,
+  iterateEligibleRolesCli,
+  iterateActiveRolesCli,
   activatePimRolesCli,
+  checkActivationRequestsCli,
+  deactivatePimRolesCli,
+  extendPimRolesCli,
+  resolveRolesCli,
+  listRoleRequestsCli,
+  cancelRoleRequestCli,
+  type RoleSource,
+  type PimRoleAssignment,
+  type ActiveRoleAssignment,
   type CliListRolesResult,
   type CliListActiveRolesResult,
   type CliActivationResult,
+  type CliDeactivationResult,
+  type CliExtensionResult,
+  type CliResolveRolesResult,
+  type CliListRequestsResult,
+  type CliCancelRequestResult,
+  type ActivationOptions,
 } from "./pim-cli.js";
+import type { ActivationRequest } from "./activation-state.js";
+import { getActivationPolicyCli, type ActivationPolicy } from "./pim-policy.js";
+import { watchRolesCli, type WatchOptions, type RoleRenewal } from "./role-watcher.js";
+import { withRequestOptions, iterateWithRequestOptions, type RetryPolicy, type RequestClient } from "./azure-rest.js";
+import { queryAuditLogFile, type AuditLogQuery, type AuditLogQueryResult } from "./audit-log.js";
+
+import {
+  updateConfigFile,
+  DEFAULT_PROFILE_NAME,
+  type ConfigFile,
+} from "./config-file.js";
+import { getEffectiveConfig, userConfigPath } from "./config-layers.js";
+
+// Re-export config file format and layered config resolution
+export { ConfigFile, ConfigFileError, CONFIG_VERSION, DEFAULT_PROFILE_NAME } from "./config-file.js";
+export { getEffectiveConfig, EffectiveConfig, EffectiveConfigValue, ConfigLayer } from "./config-layers.js";
+
+// Re-export token cache control and retry settings
+export { clearTokenCache, RetryPolicy, DEFAULT_RETRY_POLICY, RequestClient } from "./azure-rest.js";
+import {
+  createTokenProvider,
+  type TokenProvider,
+} from "./token-provider.js";
 
 // ============================================================================
 // Types
@@ -57,14 +133,70 @@ import {
  * Configuration for a role to activate
  */
 export interface RoleConfig {
-  /** The display name of the role (e.g., "Contributor", "Owner") */
+  /** The display name of the role (e.g., "Contributor", "Owner"), "Member"/"Owner" for group access, or a role definition ID */
   name: string;
-  /** The scope name or identifier (e.g., "my-subscription", "my-resource-group") */
+  /** The scope name or identifier (e.g., "my-subscription", "my-resource-group", "Directory", a group name) */
   scope: string;
+  /** Restrict matching to one kind of role: Azure resource, Entra ID directory, or group access (default: any) */
+  roleSource?: RoleSource;
+  /** Eligibility instance ID (the id from listEligibleRoles()); when set, name and scope are not used for matching */
+  id?: string;
+  /** Activation duration for this role, overriding the duration passed to activateRoles() */
+  durationHours?: number;
+}
+
+/**
+ * Options accepted by the library functions that call Azure
+ */
+export interface PimOptions {
+  /** Where access tokens come from (default: the Azure CLI) */
+  tokenProvider?: TokenProvider;
+  /** How throttled (429) and failed (5xx, network) requests are retried */
+  retry?: Partial<RetryPolicy>;
+  /** What is making the calls, as recorded in the audit log (default: "library") */
+  client?: RequestClient;
+}
+
+/**
+ * Options accepted by listEligibleRoles()
+ */
+export interface ListEligibleRolesOptions extends PimOptions {
+  /** Also read each role's activation policy (one extra request per role definition and scope) */
+  includePolicies?: boolean;
 }
 
 /**
- * Configuration for quick roles (favorites)
+ * Options accepted by listRoleRequests()
+ */
+export interface ListRoleRequestsOptions extends PimOptions {
+  /** Only requests that are still pending or scheduled, i.e. that can be cancelled */
+  pendingOnly?: boolean;
+  /** Return at most this many requests, newest first */
+  limit?: number;
+}
+
+/**
+ * Options accepted by the activation functions
+ */
+export interface ActivateRolesOptions extends PimOptions, ActivationOptions {}
+
+/**
+ * Options accepted by watchRoles()
+ */
+export interface WatchRolesOptions extends PimOptions, WatchOptions {}
+
+/**
+ * Options accepted by activateQuickRoles().
+ * The profile name is an option rather than activateQuickRoles()'s first parameter, which has
+ * been the justification since before profiles existed and stays so for existing callers.
+ */
+export interface ActivateQuickRolesOptions extends ActivateRolesOptions {
+  /** Name of the quick role profile to activate (default: the configured default profile) */
+  profile?: string;
+}
+
+/**
+ * Configuration for quick roles (favorites): one named profile
  */
 export interface QuickRolesConfig {
   /** Array of roles saved as favorites */
@@ -73,6 +205,19 @@ export interface QuickRolesConfig {
   description?: string;
   /** Optional default justification to use when activating */
   defaultJustification?: string;
+  /** Optional default activation duration in hours (default: 8) */
+  defaultDurationHours?: number;
+  /** Optional ticket system to send with a ticket number when none is given (e.g., "ServiceNow") */
+  defaultTicketSystem?: string;
+}
+
+/**
+ * All quick role profiles, keyed by name, as stored in .pim-me-mcp.json
+ */
+export interface QuickRoleProfiles {
+  profiles: Record<string, QuickRolesConfig>;
+  /** Profile used when none is named */
+  defaultProfile?: string;
 }
 
 // ============================================================================
@@ -81,7 +226,10 @@ export interface QuickRolesConfig {
 
 /**
  * List all eligible PIM roles that can be activated.
+ * Includes Azure resource roles, Entra ID directory roles and eligible group
+ * memberships/ownerships, told apart by roleSource.
  * 
+ * @param options - Optional settings such as includePolicies, a custom tokenProvider or retry policy
  * @returns Promise with success status, array of eligible roles, and message
  * 
  * @example
@@ -92,17 +240,22 @@ export interface QuickRolesConfig {
  *     console.log(`${role.roleName} - ${role.scopeName}`);
  *   });
  * }
+ * 
+ * // Include what each role's policy requires
+ * const withPolicies = await listEligibleRoles({ includePolicies: true });
  * ```
  */
-export async function listEligibleRoles(): Promise<CliListRolesResult> {
-  return listEligibleRolesCli();
+export async function listEligibleRoles(options: ListEligibleRolesOptions = {}): Promise<CliListRolesResult> {
+  return withRequestOptions(options, () => listEligibleRolesCli(options));
 }
 
 /**
  * List all currently active (elevated) PIM role assignments.
  * Only returns roles that were activated via PIM, not permanent assignments.
+ * Activations scheduled to start later are returned separately in scheduledRoles.
  * 
- * @returns Promise with success status, array of active roles with expiration times, and message
+ * @param options - Optional settings such as a custom tokenProvider or retry policy
+ * @returns Promise with success status, array of active roles with expiration times, scheduled roles, and message
  * 
  * @example
  * ```typescript
@@ -111,20 +264,62 @@ export async function listEligibleRoles(): Promise<CliListRolesResult> {
  *   result.roles.forEach(role => {
  *     console.log(`${role.roleName} expires at ${role.endDateTime}`);
  *   });
+ *   result.scheduledRoles.forEach(role => {
+ *     console.log(`${role.roleName} starts at ${role.startDateTime}`);
+ *   });
+ * }
+ * ```
+ */
+export async function listActiveRoles(options: PimOptions = {}): Promise<CliListActiveRolesResult> {
+  return withRequestOptions(options, () => listActiveRolesCli());
+}
+
+/**
+ * Stream eligible PIM roles one at a time instead of waiting for the full list.
+ * Follows pagination lazily, so breaking out of the loop stops further requests.
+ * 
+ * @param options - Optional settings such as a custom tokenProvider or retry policy
+ * @returns Async iterator of eligible roles
+ * @throws Error if every role backend fails
+ * 
+ * @example
+ * ```typescript
+ * for await (const role of iterateEligibleRoles()) {
+ *   console.log(`${role.roleName} - ${role.scopeName}`);
+ * }
+ * ```
+ */
+export function iterateEligibleRoles(options: PimOptions = {}): AsyncGenerator<PimRoleAssignment> {
+  return iterateWithRequestOptions(options, iterateEligibleRolesCli);
+}
+
+/**
+ * Stream active PIM role assignments one at a time instead of waiting for the full list.
+ * 
+ * @param options - Optional settings such as a custom tokenProvider or retry policy
+ * @returns Async iterator of active roles
+ * @throws Error if every role backend fails
+ * 
+ * @example
+ * ```typescript
+ * for await (const role of iterateActiveRoles()) {
+ *   console.log(`${role.roleName} expires at ${role.endDateTime}`);
  * }
  * ```
  */
-export async function listActiveRoles(): Promise<CliListActiveRolesResult> {
-  return listActiveRolesCli();
+export function iterateActiveRoles(options: PimOptions = {}): AsyncGenerator<ActiveRoleAssignment> {
+  return iterateWithRequestOptions(options, iterateActiveRolesCli);
 }
 
 /**
  * Activate one or more PIM roles.
  * 
- * @param roles - Array of roles to activate (name and scope)
+ * @param roles - Array of roles to activate (name and scope, or eligibility id, with an optional per-role durationHours)
  * @param justification - Business justification (required by Azure PIM)
  * @param durationHours - How long to activate the roles (default: 8 hours)
- * @returns Promise with success status, lists of activated and failed roles, and message
+ * @param options - Optional settings such as waitForProvisioning, ticketNumber/ticketSystem, dryRun, a custom tokenProvider or retry policy
+ * @returns Promise with success status, roles by outcome (activated, pending approval, submitted, failed), the submitted requests, and message;
+ *   with dryRun, the plan for each role instead, and nothing is submitted
  * 
  * @example
  * ```typescript
@@ -139,17 +334,295 @@ export async function listActiveRoles(): Promise<CliListActiveRolesResult> {
  * 
  * if (result.success) {
  *   console.log('Activated:', result.activatedRoles);
+ *   console.log('Awaiting approval:', result.pendingApprovalRoles);
  * } else {
  *   console.log('Failed:', result.failedRoles);
  * }
+ * 
+ * // Wait up to two minutes for the roles to actually be provisioned
+ * await activateRoles(roles, 'Deploying new feature', 8, { waitForProvisioning: true });
+ * 
+ * // Activate an exact eligibility from listEligibleRoles(), for a shorter time than the rest
+ * const eligible = await listEligibleRoles();
+ * await activateRoles(
+ *   [{ name: '', scope: '', id: eligible.roles[0].id, durationHours: 1 }],
+ *   'Deploying new feature'
+ * );
+ * 
+ * // Schedule Owner for tonight's maintenance window
+ * await activateRoles([{ name: 'Owner', scope: 'prod' }], 'Maintenance', 8, {
+ *   startDateTime: '2025-06-01T22:00:00Z',
+ *   endDateTime: '2025-06-02T02:00:00Z',
+ * });
+ * 
+ * // Send a change ticket for roles whose policy requires one
+ * await activateRoles(roles, 'Release', 4, { ticketNumber: 'CHG0012345', ticketSystem: 'ServiceNow' });
+ * 
+ * // See what would happen first, without submitting anything
+ * const preview = await activateRoles([{ name: 'Owner', scope: 'prod' }], 'Incident 123', 4, { dryRun: true });
+ * preview.plan?.forEach(p => console.log(`${p.roleName} at ${p.scopeName}: ${p.expectedOutcome} for ${p.durationHours}h`));
  * ```
  */
 export async function activateRoles(
   roles: RoleConfig[],
   justification: string,
-  durationHours: number = 8
+  durationHours: number = 8,
+  options: ActivateRolesOptions = {}
 ): Promise<CliActivationResult> {
-  return activatePimRolesCli(roles, justification, durationHours);
+  return withRequestOptions(options, () =>
+    activatePimRolesCli(roles, justification, durationHours, options)
+  );
+}
+
+/**
+ * Resolve roles to the exact eligible roles activateRoles() would activate, without activating them.
+ * Role definition and scope IDs are matched first, then exact display names, then partial names.
+ * A request that matches several different roles at the same level is reported as ambiguous
+ * instead of picking one.
+ * 
+ * @param roles - Array of roles to resolve (name or role definition ID, and scope name or ID)
+ * @param options - Optional settings such as a custom tokenProvider or retry policy
+ * @returns Promise with success status (true only if every role resolved), one resolution per role, and message
+ * 
+ * @example
+ * ```typescript
+ * const result = await resolveRoles([{ name: 'Reader', scope: 'my-subscription' }]);
+ * for (const resolution of result.resolutions) {
+ *   if (resolution.status === 'ambiguous') {
+ *     console.log('Did you mean:', resolution.candidates.map(c => `${c.roleName} (${c.scopeName})`));
+ *   }
+ * }
+ * ```
+ */
+export async function resolveRoles(
+  roles: RoleConfig[],
+  options: PimOptions = {}
+): Promise<CliResolveRolesResult> {
+  return withRequestOptions(options, () => resolveRolesCli(roles));
+}
+
+/**
+ * Get what a role's management policy requires for activation:
+ * maximum duration, and whether justification, a ticket, MFA or approval is needed.
+ * 
+ * @param role - An eligible role, as returned by listEligibleRoles()
+ * @param options - Optional settings such as a custom tokenProvider or retry policy
+ * @returns Promise with the role's activation policy
+ * @throws Error if the policy can't be read
+ * 
+ * @example
+ * ```typescript
+ * const eligible = await listEligibleRoles();
+ * const policy = await getActivationPolicy(eligible.roles[0]);
+ * if (policy.requiresApproval) {
+ *   console.log('This role needs approval');
+ * }
+ * ```
+ */
+export async function getActivationPolicy(
+  role: PimRoleAssignment,
+  options: PimOptions = {}
+): Promise<ActivationPolicy> {
+  return withRequestOptions(options, () => getActivationPolicyCli(role));
+}
+
+/**
+ * Check on activation requests returned by activateRoles(), e.g. ones pending approval.
+ * 
+ * @param requests - Requests from a CliActivationResult
+ * @param options - Optional settings such as a custom tokenProvider or retry policy
+ * @returns Promise with the requests and their current status and state
+ * 
+ * @example
+ * ```typescript
+ * const result = await activateRoles(roles, 'Production fix');
+ * // ...later
+ * const requests = await checkActivationStatus(result.requests);
+ * requests.forEach(r => console.log(`${r.role}: ${r.state}`));
+ * ```
+ */
+export async function checkActivationStatus(
+  requests: ActivationRequest[],
+  options: PimOptions = {}
+): Promise<ActivationRequest[]> {
+  return withRequestOptions(options, () => checkActivationRequestsCli(requests));
+}
+
+/**
+ * List your PIM requests (activations, deactivations and extensions), newest first, across
+ * Azure resource roles, directory roles and group access. Unlike checkActivationStatus(), this
+ * reads the request history from PIM, so it also finds requests made elsewhere, e.g. in the portal.
+ * 
+ * @param options - Optional pendingOnly and limit filters, a custom tokenProvider or retry policy
+ * @returns Promise with success status, the requests with their status, approver and timestamps, and message
+ * 
+ * @example
+ * ```typescript
+ * const result = await listRoleRequests({ pendingOnly: true });
+ * result.requests.forEach(r => console.log(`${r.roleName} (${r.scopeName}): ${r.status} since ${r.createdDateTime}`));
+ * ```
+ */
+export async function listRoleRequests(options: ListRoleRequestsOptions = {}): Promise<CliListRequestsResult> {
+  return withRequestOptions(options, () => listRoleRequestsCli(options));
+}
+
+/**
+ * Withdraw a request that is still pending approval, waiting to be provisioned, or scheduled
+ * to start later. Requests that have already been decided or provisioned can't be cancelled.
+ * 
+ * @param request - The request to cancel: a PimRoleRequest from listRoleRequests(), or an
+ *   ActivationRequest from an activation result
+ * @param options - Optional settings such as a custom tokenProvider or retry policy
+ * @returns Promise with success status, the request ID and message
+ * 
+ * @example
+ * ```typescript
+ * const result = await activateRoles(roles, 'Production fix');
+ * for (const request of result.requests.filter(r => r.state === 'pendingApproval')) {
+ *   await cancelRequest(request);
+ * }
+ * ```
+ */
+export async function cancelRequest(
+  request: { requestId: string; roleSource: RoleSource },
+  options: PimOptions = {}
+): Promise<CliCancelRequestResult> {
+  return withRequestOptions(options, () => cancelRoleRequestCli(request));
+}
+
+/**
+ * Deactivate one or more active PIM roles before they expire.
+ * Roles are matched by name and scope against the currently active roles.
+ * 
+ * @param roles - Array of active roles to deactivate (name and scope)
+ * @param options - Optional settings such as a custom tokenProvider or retry policy
+ * @returns Promise with success status, lists of deactivated and failed roles, and message
+ * 
+ * @example
+ * ```typescript
+ * const result = await deactivateRoles([
+ *   { name: 'Owner', scope: 'my-resource-group' }
+ * ]);
+ * 
+ * if (!result.success) {
+ *   console.log('Failed:', result.failedRoles);
+ * }
+ * ```
+ */
+export async function deactivateRoles(
+  roles: RoleConfig[],
+  options: PimOptions = {}
+): Promise<CliDeactivationResult> {
+  return withRequestOptions(options, () => deactivatePimRolesCli(roles));
+}
+
+/**
+ * Deactivate every currently active PIM role.
+ * 
+ * @param options - Optional settings such as a custom tokenProvider or retry policy
+ * @returns Promise with success status, lists of deactivated and failed roles, and message
+ * 
+ * @example
+ * ```typescript
+ * const result = await deactivateAllRoles();
+ * console.log('Deactivated:', result.deactivatedRoles);
+ * ```
+ */
+export async function deactivateAllRoles(options: PimOptions = {}): Promise<CliDeactivationResult> {
+  return withRequestOptions(options, () => deactivatePimRolesCli([], true));
+}
+
+/**
+ * Extend active PIM roles before they expire.
+ * Each role is extended to last durationHours from now, if the role's
+ * management policy allows extension.
+ * 
+ * @param roles - Active role assignments to extend, as returned by listActiveRoles()
+ * @param justification - Business justification for the extension
+ * @param durationHours - New activation window from now (default: 8 hours)
+ * @param options - Optional settings such as a custom tokenProvider or retry policy
+ * @returns Promise with success status, extended roles with their new endDateTime, failed roles, and message
+ * 
+ * @example
+ * ```typescript
+ * const active = await listActiveRoles();
+ * const expiring = active.roles.filter(r => r.roleName === 'Contributor');
+ * const result = await extendRoles(expiring, 'Deployment still running', 4);
+ * result.extendedRoles.forEach(r => console.log(`${r.role} now ends ${r.endDateTime}`));
+ * ```
+ */
+export async function extendRoles(
+  roles: ActiveRoleAssignment[],
+  justification: string,
+  durationHours: number = 8,
+  options: PimOptions = {}
+): Promise<CliExtensionResult> {
+  return withRequestOptions(options, () =>
+    extendPimRolesCli(roles, justification, durationHours)
+  );
+}
+
+/**
+ * Keep roles elevated through a long session, e.g. an on-call shift.
+ * Polls the active roles and extends a watched role once it is within renewBeforeMinutes
+ * of its endDateTime. If the extension isn't allowed, the role is left to lapse and then
+ * re-activated with the same justification. At most maxRenewalsPerDay renewals are attempted
+ * per role per day, and every renewal is logged and passed to onRenewal.
+ * 
+ * @param roles - Roles to watch (name and scope, or eligibility id, with an optional per-role durationHours)
+ * @param justification - Justification for extensions and re-activations
+ * @param options - Optional settings such as pollIntervalSeconds (default: 60), renewBeforeMinutes (default: 15),
+ *   durationHours (default: 8), maxRenewalsPerDay (default: 3), an AbortSignal to stop watching,
+ *   a custom tokenProvider or retry policy
+ * @returns Promise that resolves with every renewal attempted once the signal is aborted
+ * @throws Error if none of the roles can be resolved to an eligible role
+ * 
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * process.on('SIGINT', () => controller.abort());
+ * 
+ * const renewals = await watchRoles(
+ *   [{ name: 'Contributor', scope: 'prod-subscription' }],
+ *   'On-call shift',
+ *   { signal: controller.signal, onRenewal: r => console.log(`${r.action} ${r.role}: ${r.message}`) }
+ * );
+ * ```
+ */
+export async function watchRoles(
+  roles: RoleConfig[],
+  justification: string,
+  options: WatchRolesOptions = {}
+): Promise<RoleRenewal[]> {
+  return withRequestOptions(options, () => watchRolesCli(roles, justification, options));
+}
+
+// ============================================================================
+// Audit Log
+// ============================================================================
+
+/**
+ * Read the local audit log of elevations. Every activation, deactivation and extension
+ * request sent by the library, the pim-me CLI or the MCP server is appended to it with its
+ * role, scope, justification, duration, PIM request ID, outcome and client.
+ * 
+ * The log is ~/.pim-me-audit.jsonl unless the config sets another path:
+ * ```json
+ * { "auditLog": { "path": "/var/log/pim-me/audit.jsonl" } }
+ * ```
+ * 
+ * @param query - Optional filters: since and until (ISO 8601 dates or date-times), role
+ *   (text matched against role and scope names), action, and a limit
+ * @returns The matching entries, newest first, with the log path and a message
+ * 
+ * @example
+ * ```typescript
+ * const history = queryAuditLog({ since: '2024-06-01', role: 'Owner' });
+ * history.entries.forEach(e => console.log(`${e.timestamp} ${e.action} ${e.role}: ${e.outcome}`));
+ * ```
+ */
+export function queryAuditLog(query: AuditLogQuery = {}): AuditLogQueryResult {
+  return queryAuditLogFile(query);
 }
 
 // ============================================================================
@@ -162,17 +635,41 @@ export async function activateRoles(
  * @returns Path to ~/.pim-me-mcp.json
  */
 export function getConfigPath(): string {
-  return join(homedir(), ".pim-me-mcp.json");
+  return userConfigPath();
 }
 
 /**
- * Load quick roles configuration from file or environment variable.
+ * Load all quick role profiles from the merged config layers.
  * 
- * Priority:
- * 1. PIM_QUICK_ROLES environment variable (JSON)
- * 2. .pim-me-mcp.json in current directory
- * 3. ~/.pim-me-mcp.json in home directory
+ * Layers, highest first (see getEffectiveConfig()):
+ * 1. Environment: PIM_QUICK_ROLES (JSON) as the "default" profile, PIM_DEFAULT_PROFILE
+ * 2. .pim-me-mcp.json in current directory (project)
+ * 3. ~/.pim-me-mcp.json in home directory (user)
+ * 
+ * Profiles merge by name, so a project can share team profiles while personal ones stay at home.
+ * A config file with an older single "quickRoles" block is read as one profile named "default".
+ * 
+ * @returns QuickRoleProfiles if any are configured, null otherwise
+ * @throws ConfigFileError if a config file or PIM_QUICK_ROLES is invalid, naming the file and JSON path
+ * 
+ * @example
+ * ```typescript
+ * const config = loadQuickRoleProfiles();
+ * if (config) {
+ *   console.log('Profiles:', Object.keys(config.profiles));
+ *   console.log('Default:', config.defaultProfile);
+ * }
+ * ```
+ */
+export function loadQuickRoleProfiles(): QuickRoleProfiles | null {
+  const { profiles, defaultProfile } = getEffectiveConfig().config;
+  return profiles ? { profiles, defaultProfile } : null;
+}
+
+/**
+ * Load one quick role profile.
  * 
+ * @param profileName - Profile to load (default: the configured default profile)
  * @returns QuickRolesConfig if found, null otherwise
  * 
  * @example
@@ -182,56 +679,101 @@ export function getConfigPath(): string {
  *   console.log('Quick roles:', config.roles);
  *   console.log('Default justification:', config.defaultJustification);
  * }
+ * 
+ * const incident = loadQuickRolesConfig('prod-incident');
  * ```
  */
-export function loadQuickRolesConfig(): QuickRolesConfig | null {
-  // Try environment variable first
-  const envRoles = process.env.PIM_QUICK_ROLES;
-  if (envRoles) {
-    try {
-      const parsed = JSON.parse(envRoles);
-      if (Array.isArray(parsed)) {
-        return { 
-          roles: parsed, 
-          description: process.env.PIM_QUICK_ROLES_DESC,
-          defaultJustification: process.env.PIM_DEFAULT_JUSTIFICATION,
-        };
-      }
-      return parsed as QuickRolesConfig;
-    } catch (e) {
-      console.error("Warning: PIM_QUICK_ROLES is not valid JSON, ignoring.");
-    }
+export function loadQuickRolesConfig(profileName?: string): QuickRolesConfig | null {
+  const config = loadQuickRoleProfiles();
+  if (!config) {
+    return null;
   }
+  return config.profiles[profileName ?? defaultProfileName(config)] ?? null;
+}
 
-  // Try config file
-  const configPaths = [
-    join(process.cwd(), ".pim-me-mcp.json"),
-    join(homedir(), ".pim-me-mcp.json"),
-  ];
-
-  for (const configPath of configPaths) {
-    if (existsSync(configPath)) {
-      try {
-        const content = readFileSync(configPath, "utf-8");
-        const config = JSON.parse(content);
-        if (config.quickRoles) {
-          return config.quickRoles as QuickRolesConfig;
-        }
-      } catch (e) {
-        console.error(`Warning: Failed to parse ${configPath}, ignoring.`);
-      }
-    }
+/**
+ * The profile used when none is named: the configured default, else the only profile, else "default"
+ */
+function defaultProfileName(config: QuickRoleProfiles): string {
+  if (config.defaultProfile) {
+    return config.defaultProfile;
   }
+  const names = Object.keys(config.profiles);
+  return names.length === 1 ? names[0] : DEFAULT_PROFILE_NAME;
+}
 
-  return null;
+/**
+ * Load the token provider configured in ~/.pim-me-mcp.json, if any.
+ * 
+ * Takes the "tokenProvider" block from the user config file; a project file's
+ * tokenProvider is ignored, since it could run code with the user's credentials. For example:
+ * 
+ * ```json
+ * { "tokenProvider": { "type": "static", "envVar": "PIM_ACCESS_TOKEN" } }
+ * ```
+ * 
+ * @returns TokenProvider if one is configured, undefined to use the Azure CLI
+ * 
+ * @example
+ * ```typescript
+ * const tokenProvider = await loadTokenProvider();
+ * const result = await listEligibleRoles({ tokenProvider });
+ * ```
+ */
+export async function loadTokenProvider(): Promise<TokenProvider | undefined> {
+  const config = findConfigValue("tokenProvider");
+  if (!config) {
+    return undefined;
+  }
+
+  // Reuse the provider while its settings are unchanged, so its cached tokens survive between calls
+  const key = JSON.stringify(config);
+  if (loadedTokenProvider?.key !== key) {
+    loadedTokenProvider = { key, provider: createTokenProvider(config) };
+  }
+  return loadedTokenProvider.provider;
+}
+
+let loadedTokenProvider: { key: string; provider: Promise<TokenProvider> } | undefined;
+
+/**
+ * Find a setting in the merged config layers.
+ * Throws ConfigFileError if a config file is invalid.
+ */
+function findConfigValue<K extends keyof ConfigFile>(key: K): ConfigFile[K] | undefined {
+  return getEffectiveConfig().config[key];
+}
+
+/**
+ * Load the library options configured in .pim-me-mcp.json: the token provider
+ * and the retry policy, e.g.
+ * 
+ * ```json
+ * { "retry": { "maxRetries": 5, "baseDelayMs": 2000 } }
+ * ```
+ * 
+ * @returns PimOptions to pass to the other library functions
+ * 
+ * @example
+ * ```typescript
+ * const options = await loadPimOptions();
+ * const result = await activateRoles(roles, 'Deploying', 8, options);
+ * ```
+ */
+export async function loadPimOptions(): Promise<PimOptions> {
+  return {
+    tokenProvider: await loadTokenProvider(),
+    retry: findConfigValue("retry"),
+  };
 }
 
 /**
- * Save quick roles configuration to the config file.
+ * Save quick roles configuration to the config file, as the default profile.
  * 
  * @param roles - Array of roles to save as favorites
  * @param description - Optional description for this set
  * @param defaultJustification - Optional default justification
+ * @param defaultTicketSystem - Optional ticket system to use when a ticket number is given without one
  * @returns Object with success status, config path, and error if failed
  * 
  * @example
@@ -253,31 +795,120 @@ export function loadQuickRolesConfig(): QuickRolesConfig | null {
 export function saveQuickRolesConfig(
   roles: RoleConfig[], 
   description?: string, 
-  defaultJustification?: string
+  defaultJustification?: string,
+  defaultTicketSystem?: string
+): { success: boolean; path: string; error?: string } {
+  return updateProfiles((profiles, config) => {
+    const name = config.defaultProfile ?? DEFAULT_PROFILE_NAME;
+    profiles[name] = { roles, description, defaultJustification, defaultTicketSystem };
+    config.defaultProfile = name;
+  });
+}
+
+/**
+ * Save a named quick role profile, replacing any profile with the same name.
+ * 
+ * @param name - Profile name (e.g., "daily-dev", "prod-incident")
+ * @param profile - Roles and defaults for the profile
+ * @param makeDefault - Also make this the default profile (the first profile saved always becomes the default)
+ * @returns Object with success status, config path, and error if failed
+ * 
+ * @example
+ * ```typescript
+ * saveQuickRoleProfile('prod-incident', {
+ *   roles: [{ name: 'Owner', scope: 'prod' }],
+ *   defaultJustification: 'Incident response',
+ *   defaultDurationHours: 2,
+ * });
+ * ```
+ */
+export function saveQuickRoleProfile(
+  name: string,
+  profile: QuickRolesConfig,
+  makeDefault: boolean = false
+): { success: boolean; path: string; error?: string } {
+  return updateProfiles((profiles, config) => {
+    profiles[name] = profile;
+    if (makeDefault || !config.defaultProfile) {
+      config.defaultProfile = name;
+    }
+  });
+}
+
+/**
+ * Rename a quick role profile, keeping it the default if it was.
+ * 
+ * @param oldName - Current profile name
+ * @param newName - New profile name
+ * @returns Object with success status, config path, and error if failed
+ */
+export function renameQuickRoleProfile(
+  oldName: string,
+  newName: string
+): { success: boolean; path: string; error?: string } {
+  return updateProfiles((profiles, config) => {
+    if (!profiles[oldName]) {
+      throw new Error(`Quick role profile "${oldName}" not found`);
+    }
+    if (profiles[newName]) {
+      throw new Error(`Quick role profile "${newName}" already exists`);
+    }
+    profiles[newName] = profiles[oldName];
+    delete profiles[oldName];
+    if (config.defaultProfile === oldName) {
+      config.defaultProfile = newName;
+    }
+  });
+}
+
+/**
+ * Delete a quick role profile. Deleting the default profile clears the default setting.
+ * 
+ * @param name - Profile to delete
+ * @returns Object with success status, config path, and error if failed
+ */
+export function deleteQuickRoleProfile(name: string): { success: boolean; path: string; error?: string } {
+  return updateProfiles((profiles, config) => {
+    if (!profiles[name]) {
+      throw new Error(`Quick role profile "${name}" not found`);
+    }
+    delete profiles[name];
+    if (config.defaultProfile === name) {
+      delete config.defaultProfile;
+    }
+  });
+}
+
+/**
+ * Choose the profile activateQuickRoles() uses when none is named.
+ * 
+ * @param name - An existing profile name
+ * @returns Object with success status, config path, and error if failed
+ */
+export function setDefaultQuickRoleProfile(name: string): { success: boolean; path: string; error?: string } {
+  return updateProfiles((profiles, config) => {
+    // The profile may come from the project config rather than the user config being written
+    if (!profiles[name] && !loadQuickRoleProfiles()?.profiles[name]) {
+      throw new Error(`Quick role profile "${name}" not found`);
+    }
+    config.defaultProfile = name;
+  });
+}
+
+/**
+ * Update the quick role profiles in ~/.pim-me-mcp.json. The file is migrated to the
+ * current format on the way, and left untouched if it can't be parsed or the result is invalid.
+ */
+function updateProfiles(
+  update: (profiles: Record<string, QuickRolesConfig>, config: ConfigFile) => void
 ): { success: boolean; path: string; error?: string } {
   const configPath = getConfigPath();
   
   try {
-    // Load existing config or create new one
-    let config: any = {};
-    if (existsSync(configPath)) {
-      try {
-        config = JSON.parse(readFileSync(configPath, "utf-8"));
-      } catch {
-        // If file is corrupted, start fresh
-      }
-    }
-    
-    // Update quick roles
-    config.quickRoles = {
-      roles,
-      description,
-      defaultJustification,
-    };
-    
-    // Write back
-    writeFileSync(configPath, JSON.stringify(config, null, 2), "utf-8");
-    
+    updateConfigFile(configPath, (config) => {
+      config.profiles ??= {};
+      update(config.profiles, config);
+    });
     return { success: true, path: configPath };
   } catch (e) {
     return { 
@@ -292,9 +923,11 @@ export function saveQuickRolesConfig(
  * Activate the configured quick roles (favorites).
  * 
  * @param justification - Business justification (optional if defaultJustification is configured)
- * @param durationHours - How long to activate (default: 8 hours)
+ * @param durationHours - How long to activate (default: the profile's defaultDurationHours, else 8 hours)
+ * @param options - Optional settings such as the profile name, waitForProvisioning, ticketNumber, dryRun,
+ *   a custom tokenProvider or retry policy; ticketSystem defaults to the profile's defaultTicketSystem
  * @returns Promise with activation result
- * @throws Error if no quick roles are configured or no justification is available
+ * @throws Error if the profile is not configured or no justification is available
  * 
  * @example
  * ```typescript
@@ -303,17 +936,26 @@ export function saveQuickRolesConfig(
  * 
  * // Or override with custom justification
  * const result = await activateQuickRoles('Emergency fix');
+ * 
+ * // Activate a named profile instead of the default one
+ * const result = await activateQuickRoles(undefined, undefined, { profile: 'prod-incident' });
+ * 
+ * // For roles whose policy requires a change ticket
+ * const result = await activateQuickRoles('Release', 4, { ticketNumber: 'CHG0012345' });
  * ```
  */
 export async function activateQuickRoles(
   justification?: string,
-  durationHours: number = 8
+  durationHours?: number,
+  options: ActivateQuickRolesOptions = {}
 ): Promise<CliActivationResult> {
-  const config = loadQuickRolesConfig();
+  const config = loadQuickRolesConfig(options.profile);
   
   if (!config) {
     throw new Error(
-      "Quick roles are not configured. Use saveQuickRolesConfig() or create ~/.pim-me-mcp.json"
+      options.profile
+        ? `Quick role profile "${options.profile}" is not configured. Use saveQuickRoleProfile() to create it.`
+        : "Quick roles are not configured. Use saveQuickRolesConfig() or create ~/.pim-me-mcp.json"
     );
   }
   
@@ -325,5 +967,8 @@ export async function activateQuickRoles(
     );
   }
   
-  return activateRoles(config.roles, finalJustification, durationHours);
+  return activateRoles(config.roles, finalJustification, durationHours ?? config.defaultDurationHours ?? 8, {
+    ...options,
+    ticketSystem: options.ticketSystem ?? config.defaultTicketSystem,
+  });
 }
@@ -0,0 +1,410 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * JSON Schemas for the MCP tools' structuredContent, mirroring the library's result types
+ * (CliActivationResult, PimRoleAssignment, ...) so clients can rely on typed results.
+ */
+
+type OutputSchema = NonNullable<Tool["outputSchema"]>;
+
+const roleSourceSchema = {
+  type: "string",
+  enum: ["azureResource", "directory", "group"],
+};
+
+const roleFailureSchema = {
+  type: "object",
+  properties: {
+    role: { type: "string" },
+    error: { type: "string" },
+  },
+  required: ["role", "error"],
+};
+
+const activationPolicySchema = {
+  type: "object",
+  properties: {
+    maximumDurationHours: { type: "number" },
+    requiresJustification: { type: "boolean" },
+    requiresTicket: { type: "boolean" },
+    requiresMfa: { type: "boolean" },
+    requiresApproval: { type: "boolean" },
+  },
+  required: ["requiresJustification", "requiresTicket", "requiresMfa", "requiresApproval"],
+};
+
+const pimRoleAssignmentProperties = {
+  id: { type: "string", description: "Eligibility instance ID; pass it as a role's id to activate exactly this role" },
+  roleDefinitionId: { type: "string" },
+  roleName: { type: "string" },
+  scope: { type: "string" },
+  scopeName: { type: "string" },
+  principalId: { type: "string" },
+  principalType: { type: "string" },
+  memberType: { type: "string", description: "Direct, or Group when eligible through a group" },
+  status: { type: "string" },
+  roleEligibilityScheduleId: { type: "string" },
+  roleSource: roleSourceSchema,
+  policy: activationPolicySchema,
+};
+
+const roleAssignmentRequired = ["id", "roleDefinitionId", "roleName", "scope", "scopeName", "memberType", "status", "roleSource"];
+
+const pimRoleAssignmentSchema = {
+  type: "object",
+  properties: pimRoleAssignmentProperties,
+  required: roleAssignmentRequired,
+};
+
+const activeRoleAssignmentSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    roleDefinitionId: { type: "string" },
+    roleName: { type: "string" },
+    scope: { type: "string" },
+    scopeName: { type: "string" },
+    principalId: { type: "string" },
+    principalType: { type: "string" },
+    memberType: { type: "string" },
+    status: { type: "string", description: "Active, or Scheduled for activations that start later" },
+    startDateTime: { type: "string" },
+    endDateTime: { type: "string" },
+    linkedRoleEligibilityScheduleId: { type: "string" },
+    roleAssignmentScheduleId: { type: "string" },
+    roleSource: roleSourceSchema,
+  },
+  required: roleAssignmentRequired,
+};
+
+const activationRequestSchema = {
+  type: "object",
+  properties: {
+    role: { type: "string" },
+    roleSource: roleSourceSchema,
+    requestId: { type: "string" },
+    status: { type: "string", description: "Raw PIM request status, e.g. PendingApproval or Provisioned" },
+    state: {
+      type: "string",
+      enum: ["activated", "pendingApproval", "submitted", "scheduled", "denied", "failed", "deactivated"],
+    },
+    startDateTime: { type: "string" },
+    error: { type: "string" },
+  },
+  required: ["role", "roleSource", "requestId", "status", "state"],
+};
+
+const roleConfigSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    scope: { type: "string" },
+    roleSource: roleSourceSchema,
+    id: { type: "string" },
+    durationHours: { type: "number" },
+  },
+  required: ["name", "scope"],
+};
+
+const quickRoleProfilesProperties = {
+  profiles: {
+    type: "object",
+    additionalProperties: {
+      type: "object",
+      properties: {
+        roles: { type: "array", items: roleConfigSchema },
+        description: { type: "string" },
+        defaultJustification: { type: "string" },
+        defaultDurationHours: { type: "number" },
+        defaultTicketSystem: { type: "string" },
+      },
+      required: ["roles"],
+    },
+  },
+  defaultProfile: { type: "string" },
+};
+
+const plannedActivationSchema = {
+  type: "object",
+  properties: {
+    role: { type: "string" },
+    id: { type: "string", description: "Eligibility instance ID of the resolved role" },
+    roleDefinitionId: { type: "string" },
+    roleName: { type: "string" },
+    scope: { type: "string" },
+    scopeName: { type: "string" },
+    roleSource: roleSourceSchema,
+    memberType: { type: "string" },
+    linkedRoleEligibilityScheduleId: { type: "string" },
+    durationHours: { type: "number" },
+    startDateTime: { type: "string" },
+    expectedOutcome: {
+      type: "string",
+      enum: ["activated", "pendingApproval", "scheduled", "alreadyActive", "failed"],
+    },
+    reason: { type: "string" },
+  },
+  required: ["role", "expectedOutcome"],
+};
+
+// Fields shared by activation and deactivation results (CliRoleRequestResult)
+const roleRequestResultProperties = {
+  success: { type: "boolean" },
+  failedRoles: { type: "array", items: roleFailureSchema },
+  warnings: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: { role: { type: "string" }, message: { type: "string" } },
+      required: ["role", "message"],
+    },
+  },
+  requests: { type: "array", items: activationRequestSchema },
+  message: { type: "string" },
+  retryCount: { type: "number" },
+};
+
+const roleRequestResultRequired = ["success", "failedRoles", "warnings", "requests", "message"];
+
+export const activationResultSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    ...roleRequestResultProperties,
+    activatedRoles: { type: "array", items: { type: "string" } },
+    pendingApprovalRoles: { type: "array", items: { type: "string" } },
+    submittedRoles: { type: "array", items: { type: "string" } },
+    scheduledRoles: { type: "array", items: { type: "string" } },
+    plan: {
+      type: "array",
+      description: "With dryRun, what would be requested for each role; nothing was submitted",
+      items: plannedActivationSchema,
+    },
+  },
+  required: [
+    ...roleRequestResultRequired,
+    "activatedRoles",
+    "pendingApprovalRoles",
+    "submittedRoles",
+    "scheduledRoles",
+  ],
+};
+
+export const listRolesResultSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    roles: { type: "array", items: pimRoleAssignmentSchema },
+    message: { type: "string" },
+  },
+  required: ["success", "roles", "message"],
+};
+
+export const listActiveRolesResultSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    roles: { type: "array", items: activeRoleAssignmentSchema },
+    scheduledRoles: { type: "array", items: activeRoleAssignmentSchema },
+    message: { type: "string" },
+  },
+  required: ["success", "roles", "scheduledRoles", "message"],
+};
+
+export const activationStatusSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    requests: { type: "array", items: activationRequestSchema },
+  },
+  required: ["requests"],
+};
+
+export const deactivationResultSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    ...roleRequestResultProperties,
+    deactivatedRoles: { type: "array", items: { type: "string" } },
+  },
+  required: [...roleRequestResultRequired, "deactivatedRoles"],
+};
+
+export const extensionResultSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    extendedRoles: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { role: { type: "string" }, endDateTime: { type: "string" } },
+        required: ["role"],
+      },
+    },
+    pendingRoles: { type: "array", items: { type: "string" } },
+    failedRoles: { type: "array", items: roleFailureSchema },
+    requests: { type: "array", items: activationRequestSchema },
+    message: { type: "string" },
+  },
+  required: ["success", "extendedRoles", "pendingRoles", "failedRoles", "requests", "message"],
+};
+
+export const quickRolesListSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    roles: {
+      type: "array",
+      description: "Eligible roles, each with the index save_quick_roles takes",
+      items: {
+        type: "object",
+        properties: { index: { type: "number" }, ...pimRoleAssignmentProperties },
+        required: ["index", ...roleAssignmentRequired],
+      },
+    },
+    ...quickRoleProfilesProperties,
+  },
+  required: ["roles", "profiles"],
+};
+
+export const quickRoleProfilesSchema: OutputSchema = {
+  type: "object",
+  properties: quickRoleProfilesProperties,
+  required: ["profiles"],
+};
+
+export const savedProfileSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    path: { type: "string", description: "The config file written" },
+    profile: { type: "string" },
+    roles: { type: "array", items: roleConfigSchema },
+  },
+  required: ["success", "path", "profile", "roles"],
+};
+
+export const profileUpdateSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    path: { type: "string", description: "The config file written" },
+    profile: { type: "string" },
+    newName: { type: "string" },
+  },
+  required: ["success", "path", "profile"],
+};
+
+export const effectiveConfigSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    config: { type: "object", description: "The merged settings" },
+    values: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          key: { type: "string" },
+          value: {},
+          layer: { type: "string", enum: ["env", "project", "user"] },
+          source: { type: "string" },
+        },
+        required: ["key", "layer", "source"],
+      },
+    },
+  },
+  required: ["config", "values"],
+};
+
+export const auditLogQueryResultSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    entries: {
+      type: "array",
+      description: "Recorded elevations, newest first",
+      items: {
+        type: "object",
+        properties: {
+          timestamp: { type: "string" },
+          action: { type: "string", enum: ["activate", "deactivate", "extend"] },
+          client: { type: "string", enum: ["library", "cli", "mcp"] },
+          role: { type: "string" },
+          scope: { type: "string" },
+          scopeName: { type: "string" },
+          roleSource: roleSourceSchema,
+          justification: { type: "string" },
+          durationHours: { type: "number" },
+          startDateTime: { type: "string" },
+          endDateTime: { type: "string" },
+          ticketNumber: { type: "string" },
+          requestId: { type: "string" },
+          outcome: {
+            type: "string",
+            description: "An activation state (activated, pendingApproval, ...), alreadyActive, deactivated, extended or failed",
+          },
+          error: { type: "string" },
+        },
+        required: ["timestamp", "action", "client", "role", "scope", "outcome"],
+      },
+    },
+    path: { type: "string", description: "The audit log file read" },
+    message: { type: "string" },
+  },
+  required: ["success", "entries", "path", "message"],
+};
+
+export const roleRequestsSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    requests: {
+      type: "array",
+      description: "Requests, newest first",
+      items: {
+        type: "object",
+        properties: {
+          requestId: { type: "string" },
+          roleSource: roleSourceSchema,
+          roleDefinitionId: { type: "string" },
+          roleName: { type: "string" },
+          scope: { type: "string" },
+          scopeName: { type: "string" },
+          requestType: { type: "string", description: "e.g. SelfActivate, SelfDeactivate, SelfExtend" },
+          status: { type: "string", description: "Raw PIM request status, e.g. PendingApproval or Canceled" },
+          state: activationRequestSchema.properties.state,
+          justification: { type: "string" },
+          ticketNumber: { type: "string" },
+          createdDateTime: { type: "string" },
+          completedDateTime: { type: "string" },
+          startDateTime: { type: "string" },
+          endDateTime: { type: "string" },
+          approvalId: { type: "string" },
+          approver: { type: "string" },
+          cancellable: { type: "boolean" },
+        },
+        required: [
+          "requestId",
+          "roleSource",
+          "roleDefinitionId",
+          "roleName",
+          "scope",
+          "scopeName",
+          "requestType",
+          "status",
+          "state",
+          "cancellable",
+        ],
+      },
+    },
+    message: { type: "string" },
+  },
+  required: ["success", "requests", "message"],
+};
+
+export const cancelRequestResultSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    success: { type: "boolean" },
+    requestId: { type: "string" },
+    message: { type: "string" },
+  },
+  required: ["success", "requestId", "message"],
+};
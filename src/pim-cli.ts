@@ -1,45 +1,55 @@
-import { exec } from "child_process";
-import { promisify } from "util";
 import { randomUUID } from "crypto";
-
-const execAsync = promisify(exec);
-
-/**
- * Get an access token for Azure Management API via Azure CLI.
- * This is the only az CLI call we need - no special characters in this command.
- */
-async function getAccessToken(): Promise<string> {
-  const result = await azCommand(
-    'account get-access-token --resource https://management.azure.com'
-  );
-  const tokenData = JSON.parse(result);
-  return tokenData.accessToken;
-}
+import { azureRestCall, azureRestPages, countRetries, getCurrentUserPrincipalId } from "./azure-rest.js";
+import {
+  activationStateFromStatus,
+  isPendingState,
+  isCancellableState,
+  scheduleEndDateTime,
+  approverNames,
+  type ActivationAttempt,
+  type ExtensionAttempt,
+  type ActivationRequest,
+  type ActivationState,
+  type TicketInfo,
+} from "./activation-state.js";
+import { getActivationPolicyCli, formatIsoDuration, type ActivationPolicy } from "./pim-policy.js";
+import { recordAudit, type NewAuditEntry } from "./audit-log.js";
+import {
+  resolveRole,
+  describeResolutionFailure,
+  type RoleRequest,
+  type RoleResolution,
+} from "./role-resolver.js";
+import {
+  iterateEligibleDirectoryRoles,
+  iterateActiveDirectoryRoles,
+  iterateScheduledDirectoryRoles,
+  activateDirectoryRole,
+  deactivateDirectoryRole,
+  extendDirectoryRole,
+  getDirectoryRoleRequestStatus,
+  iterateDirectoryRoleRequests,
+  getDirectoryRoleApprover,
+  cancelDirectoryRoleRequest,
+} from "./pim-graph.js";
+import {
+  iterateEligibleGroupAccess,
+  iterateActiveGroupAccess,
+  iterateScheduledGroupAccess,
+  activateGroupAccess,
+  deactivateGroupAccess,
+  extendGroupAccess,
+  getGroupAccessRequestStatus,
+  iterateGroupAccessRequests,
+  getGroupAccessApprover,
+  cancelGroupAccessRequest,
+} from "./pim-groups.js";
 
 /**
- * Make an authenticated REST call to Azure Management API using native fetch.
- * This avoids shell escaping issues with cmd.exe on Windows (& in URLs, " in JSON bodies).
+ * Where a PIM role lives: Azure resource roles are managed through ARM,
+ * Entra ID directory roles and PIM for Groups memberships/ownerships through Microsoft Graph.
  */
-async function azureRestCall(method: string, url: string, body?: unknown): Promise<unknown> {
-  const token = await getAccessToken();
-  const options: RequestInit = {
-    method,
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-      'Accept-Language': 'en-US',
-    },
-  };
-  if (body) {
-    options.body = JSON.stringify(body);
-  }
-  const response = await fetch(url, options);
-  const text = await response.text();
-  if (!response.ok) {
-    throw new Error(`Azure REST API error (${response.status}): ${text}`);
-  }
-  return text ? JSON.parse(text) : {};
-}
+export type RoleSource = "azureResource" | "directory" | "group";
 
 export interface PimRoleAssignment {
   id: string;
@@ -52,71 +62,123 @@ export interface PimRoleAssignment {
   memberType: string;
   status: string;
   roleEligibilityScheduleId?: string;
+  roleSource: RoleSource;
+  /** Activation requirements, when requested with includePolicies */
+  policy?: ActivationPolicy;
 }
 
-export interface CliActivationResult {
+/**
+ * Per-role reporting shared by activation and deactivation results
+ */
+export interface CliRoleRequestResult {
   success: boolean;
-  activatedRoles: string[];
   failedRoles: { role: string; error: string }[];
+  /** Notes on roles such as clamped durations, approval requirements or untouched scheduled activations */
+  warnings: { role: string; message: string }[];
+  /** Submitted requests, for checking on pending ones later */
+  requests: ActivationRequest[];
   message: string;
+  /** Requests that were retried because of throttling (429) or transient failures */
+  retryCount: number;
 }
 
-export interface CliListRolesResult {
-  success: boolean;
-  roles: PimRoleAssignment[];
-  message: string;
+export interface CliActivationResult extends CliRoleRequestResult {
+  /** Roles that are live now */
+  activatedRoles: string[];
+  /** Roles waiting on an approver */
+  pendingApprovalRoles: string[];
+  /** Roles accepted by PIM but not yet provisioned */
+  submittedRoles: string[];
+  /** Roles granted to start at the requested future startDateTime */
+  scheduledRoles: string[];
+  /** With dryRun, what would be requested for each role; nothing is submitted */
+  plan?: PlannedActivation[];
 }
 
 /**
- * Execute an Azure CLI command and return the result
+ * What a dry run found a role activation would do
  */
-async function azCommand(command: string): Promise<string> {
-  try {
-    const { stdout, stderr } = await execAsync(`az ${command}`, {
-      maxBuffer: 10 * 1024 * 1024, // 10MB buffer
-    });
-    if (stderr && !stderr.includes("WARNING")) {
-      console.error("Azure CLI stderr:", stderr);
-    }
-    return stdout;
-  } catch (error: any) {
-    throw new Error(`Azure CLI error: ${error.message}\n${error.stderr || ""}`);
-  }
+export interface PlannedActivation {
+  /** The requested role, as reported in CliActivationResult */
+  role: string;
+  /** Eligibility instance ID of the resolved role; the other role fields are set along with it */
+  id?: string;
+  roleDefinitionId?: string;
+  roleName?: string;
+  scope?: string;
+  scopeName?: string;
+  roleSource?: RoleSource;
+  /** Direct, or Group when eligible through a group */
+  memberType?: string;
+  /** Sent with Azure resource roles eligible through a group */
+  linkedRoleEligibilityScheduleId?: string;
+  /** The duration that would be requested, after any policy maximum */
+  durationHours?: number;
+  startDateTime?: string;
+  /** Most likely result of submitting the request, going by the role's policy and active roles */
+  expectedOutcome: "activated" | "pendingApproval" | "scheduled" | "alreadyActive" | "failed";
+  /** Why a role would fail or needs nothing, or what the outcome depends on */
+  reason?: string;
 }
 
 /**
- * Get the current user's principal ID from the access token
+ * A role to activate: a name and scope, or an eligibility instance ID, with an optional duration of its own
  */
-async function getCurrentUserPrincipalId(): Promise<string> {
-  try {
-    // Get the access token and extract the oid (object ID) claim
-    const token = await getAccessToken();
-    
-    // Decode the JWT payload (second part)
-    const parts = token.split(".");
-    if (parts.length < 2) {
-      throw new Error("Invalid token format");
-    }
-    
-    // Add padding if needed for base64 decode
-    let payload = parts[1];
-    const padding = payload.length % 4;
-    if (padding) {
-      payload += "=".repeat(4 - padding);
-    }
-    
-    const decoded = Buffer.from(payload, "base64").toString("utf-8");
-    const claims = JSON.parse(decoded);
-    
-    if (!claims.oid) {
-      throw new Error("No oid claim in token");
-    }
-    
-    return claims.oid;
-  } catch (error) {
-    console.error("Failed to get user principal ID from token:", error);
-    throw error;
-  }
+export interface RoleActivationRequest extends RoleRequest {
+  /** Overrides the duration passed to the activation call for this role */
+  durationHours?: number;
+}
+
+export interface ActivationOptions {
+  /** Poll submitted requests until they are provisioned, denied or the timeout passes */
+  waitForProvisioning?: boolean;
+  /** How long to wait for provisioning (default: 120 seconds) */
+  provisioningTimeoutSeconds?: number;
+  /**
+   * What to do when the requested duration exceeds the role's policy maximum:
+   * "clamp" activates for the maximum instead (default), "reject" fails the role
+   */
+  durationPolicy?: "clamp" | "reject";
+  /** Change ticket number, for roles whose policy requires one */
+  ticketNumber?: string;
+  /** The system the ticket lives in (e.g., "ServiceNow") */
+  ticketSystem?: string;
+  /** Start the activation at this time instead of now, e.g. for a maintenance window */
+  startDateTime?: string | Date;
+  /** End the activation at this time; overrides the duration */
+  endDateTime?: string | Date;
+  /** Resolve roles, check policies and active roles, and return the plan without submitting anything */
+  dryRun?: boolean;
+}
+
+export interface CliDeactivationResult extends CliRoleRequestResult {
+  /** Roles whose deactivation was accepted */
+  deactivatedRoles: string[];
+}
+
+export interface CliExtensionResult {
+  success: boolean;
+  /** Roles whose extension took effect, with the new end time when Azure reports it */
+  extendedRoles: { role: string; endDateTime?: string }[];
+  /** Roles whose extension is waiting on an approver or on provisioning */
+  pendingRoles: string[];
+  failedRoles: { role: string; error: string }[];
+  /** Submitted extension requests, for checking on pending ones later */
+  requests: ActivationRequest[];
+  message: string;
+}
+
+export interface CliListRolesResult {
+  success: boolean;
+  roles: PimRoleAssignment[];
+  message: string;
+}
+
+export interface CliResolveRolesResult {
+  success: boolean;
+  /** One resolution per requested role, in request order */
+  resolutions: RoleResolution<PimRoleAssignment>[];
+  message: string;
 }
 
 export interface ActiveRoleAssignment {
@@ -131,136 +193,421 @@ export interface ActiveRoleAssignment {
   status: string;
   startDateTime?: string;
   endDateTime?: string;
+  linkedRoleEligibilityScheduleId?: string;
+  roleAssignmentScheduleId?: string;
+  roleSource: RoleSource;
+}
+
+/**
+ * One of the current user's PIM requests: an activation, deactivation or extension,
+ * past or still pending
+ */
+export interface PimRoleRequest {
+  /** ARM resource ID of the request, or the Graph request ID for directory and group roles */
+  requestId: string;
+  roleSource: RoleSource;
+  roleDefinitionId: string;
+  roleName: string;
+  scope: string;
+  scopeName: string;
+  /** What was requested (e.g., "SelfActivate", "SelfDeactivate", "SelfExtend") */
+  requestType: string;
+  /** Raw PIM request status (e.g., "PendingApproval", "Provisioned", "Canceled") */
+  status: string;
+  state: ActivationState;
+  justification?: string;
+  ticketNumber?: string;
+  /** When the request was made */
+  createdDateTime?: string;
+  /** When the request reached its final status (directory and group requests only) */
+  completedDateTime?: string;
+  /** The requested activation window */
+  startDateTime?: string;
+  endDateTime?: string;
+  /** Set when the request went through approval */
+  approvalId?: string;
+  /** Who approved or denied the request, when it could be read */
+  approver?: string;
+  /** Whether the request is still pending or scheduled, so cancelRequest() can withdraw it */
+  cancellable: boolean;
+}
+
+export interface CliListRequestsResult {
+  success: boolean;
+  /** Requests, newest first */
+  requests: PimRoleRequest[];
+  message: string;
+}
+
+export interface CliCancelRequestResult {
+  success: boolean;
+  requestId: string;
+  message: string;
 }
 
 export interface CliListActiveRolesResult {
   success: boolean;
   roles: ActiveRoleAssignment[];
+  /** Activations scheduled to start in the future, with status "Scheduled" */
+  scheduledRoles: ActiveRoleAssignment[];
   message: string;
 }
 
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const item of items) {
+    collected.push(item);
+  }
+  return collected;
+}
+
+/**
+ * Yield active PIM-activated Azure resource role assignments via ARM, following pagination.
+ * Throws on API errors so the caller can combine this with the Graph backends.
+ */
+async function* iterateActiveResourceRoles(): AsyncGenerator<ActiveRoleAssignment> {
+  // Use the PIM API to get active role assignments
+  const apiVersion = "2020-10-01";
+  const url = `https://management.azure.com/providers/Microsoft.Authorization/roleAssignmentScheduleInstances?api-version=${apiVersion}&$filter=asTarget()`;
+  
+  for await (const page of azureRestPages(url)) {
+    for (const item of page) {
+      // Only include PIM-activated roles, not permanent assignments
+      if (item.properties?.assignmentType !== "Activated") {
+        continue;
+      }
+      
+      yield activeResourceRoleFromItem(item, item.properties.status || "Active");
+    }
+  }
+}
+
+/**
+ * Yield Azure resource role activations that are scheduled to start in the future.
+ * Schedules (unlike schedule instances) exist before their start time.
+ */
+async function* iterateScheduledResourceRoles(): AsyncGenerator<ActiveRoleAssignment> {
+  const apiVersion = "2020-10-01";
+  const url = `https://management.azure.com/providers/Microsoft.Authorization/roleAssignmentSchedules?api-version=${apiVersion}&$filter=asTarget()`;
+  const now = Date.now();
+
+  for await (const page of azureRestPages(url)) {
+    for (const item of page) {
+      const props = item.properties || {};
+      if (props.assignmentType !== "Activated" || !props.startDateTime ||
+          new Date(props.startDateTime).getTime() <= now) {
+        continue;
+      }
+
+      // The schedule itself is what a deactivation or extension targets
+      yield { ...activeResourceRoleFromItem(item, "Scheduled"), roleAssignmentScheduleId: item.id };
+    }
+  }
+}
+
+function activeResourceRoleFromItem(item: any, status: string): ActiveRoleAssignment {
+  const props = item.properties || {};
+
+  // Get role name from expanded properties
+  const roleName = props.expandedProperties?.roleDefinition?.displayName || "Unknown Role";
+  
+  // Get scope name from expanded properties  
+  const scopeName = props.expandedProperties?.scope?.displayName || 
+                   props.scope?.split("/").pop() || 
+                   props.scope || "";
+  
+  return {
+    id: item.id || "",
+    roleDefinitionId: props.roleDefinitionId || "",
+    roleName,
+    scope: props.scope || "",
+    scopeName,
+    principalId: props.principalId || "",
+    principalType: props.principalType || "",
+    memberType: props.memberType || "Direct",
+    status,
+    startDateTime: props.startDateTime,
+    endDateTime: props.endDateTime,
+    linkedRoleEligibilityScheduleId: props.linkedRoleEligibilityScheduleId || undefined,
+    roleAssignmentScheduleId: props.roleAssignmentScheduleId || undefined,
+    roleSource: "azureResource",
+  };
+}
+
+function activeRoleBackends(): [string, () => AsyncGenerator<ActiveRoleAssignment>][] {
+  return [
+    ["Azure resource roles", iterateActiveResourceRoles],
+    ["Directory roles", iterateActiveDirectoryRoles],
+    ["Group access", iterateActiveGroupAccess],
+  ];
+}
+
+function scheduledRoleBackends(): [string, () => AsyncGenerator<ActiveRoleAssignment>][] {
+  return [
+    ["Scheduled Azure resource roles", iterateScheduledResourceRoles],
+    ["Scheduled directory roles", iterateScheduledDirectoryRoles],
+    ["Scheduled group access", iterateScheduledGroupAccess],
+  ];
+}
+
+/**
+ * Stream active PIM role assignments for the current user one at a time, backend by backend
+ * and page by page. A failing backend is logged and skipped; if every backend fails, this throws.
+ */
+export async function* iterateActiveRolesCli(): AsyncGenerator<ActiveRoleAssignment> {
+  const errors: string[] = [];
+  const backends = activeRoleBackends();
+
+  for (const [label, iterate] of backends) {
+    try {
+      yield* iterate();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error(`Warning: failed to list active ${label.toLowerCase()}: ${reason}`);
+      errors.push(`${label}: ${reason}`);
+    }
+  }
+
+  if (errors.length === backends.length) {
+    throw new Error(`Error listing active PIM roles: ${errors.join("; ")}`);
+  }
+}
+
 /**
- * List all currently active PIM role assignments for the current user using Azure CLI
+ * List all currently active PIM role assignments for the current user,
+ * covering Azure resource roles, Entra ID directory roles and group access,
+ * along with activations scheduled to start later.
+ * Backends that fail are reported in the message as long as one active backend succeeds.
  */
 export async function listActiveRolesCli(): Promise<CliListActiveRolesResult> {
-  try {
-    console.error("Fetching active role assignments...");
-    
-    // Use the PIM API to get active role assignments
-    const apiVersion = "2020-10-01";
-    const url = `https://management.azure.com/providers/Microsoft.Authorization/roleAssignmentScheduleInstances?api-version=${apiVersion}&$filter=asTarget()`;
-    
-    const data = await azureRestCall('GET', url) as any;
-    
-    const roles: ActiveRoleAssignment[] = [];
-    
-    if (data.value && Array.isArray(data.value)) {
-      for (const item of data.value) {
-        const props = item.properties || {};
-        
-        // Only include PIM-activated roles, not permanent assignments
-        if (props.assignmentType !== "Activated") {
-          continue;
-        }
-        
-        // Get role name from expanded properties
-        const roleName = props.expandedProperties?.roleDefinition?.displayName || "Unknown Role";
-        
-        // Get scope name from expanded properties  
-        const scopeName = props.expandedProperties?.scope?.displayName || 
-                         props.scope?.split("/").pop() || 
-                         props.scope || "";
-        
-        roles.push({
-          id: item.id || "",
-          roleDefinitionId: props.roleDefinitionId || "",
-          roleName,
-          scope: props.scope || "",
-          scopeName,
-          principalId: props.principalId || "",
-          principalType: props.principalType || "",
-          memberType: props.memberType || "Direct",
-          status: props.status || "Active",
-          startDateTime: props.startDateTime,
-          endDateTime: props.endDateTime,
-        });
+  const backends = activeRoleBackends();
+  const scheduledBackends = scheduledRoleBackends();
+  const results = await Promise.allSettled(
+    [...backends, ...scheduledBackends].map(([, iterate]) => collect(iterate()))
+  );
+
+  const roles: ActiveRoleAssignment[] = [];
+  const scheduledRoles: ActiveRoleAssignment[] = [];
+  const errors: string[] = [];
+  let activeFailures = 0;
+
+  results.forEach((result, i) => {
+    const isScheduled = i >= backends.length;
+    if (result.status === "fulfilled") {
+      (isScheduled ? scheduledRoles : roles).push(...result.value);
+    } else {
+      const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      const label = isScheduled ? scheduledBackends[i - backends.length][0] : backends[i][0];
+      errors.push(`${label}: ${reason}`);
+      if (!isScheduled) {
+        activeFailures++;
       }
     }
+  });
 
-    return {
-      success: true,
-      roles,
-      message: `Found ${roles.length} active PIM role assignments.`,
-    };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
+  if (activeFailures === backends.length) {
     return {
       success: false,
       roles: [],
-      message: `Error listing active PIM roles: ${errorMessage}`,
+      scheduledRoles: [],
+      message: `Error listing active PIM roles: ${errors.join("; ")}`,
     };
   }
+
+  const scheduledNote = scheduledRoles.length > 0 ? ` ${scheduledRoles.length} scheduled to start later.` : "";
+  return {
+    success: true,
+    roles,
+    scheduledRoles,
+    message: `Found ${roles.length} active PIM role assignments.${scheduledNote}${errors.length > 0 ? ` Warning: ${errors.join("; ")}` : ""}`,
+  };
 }
 
 /**
- * List all eligible PIM role assignments for the current user using Azure CLI
+ * Yield eligible Azure resource role assignments via ARM, following pagination.
+ * Throws on API errors so the caller can combine this with the Graph backends.
  */
-export async function listEligibleRolesCli(): Promise<CliListRolesResult> {
-  try {
-    console.error("Fetching eligible role assignments...");
-    
-    // Use the PIM API to get eligible role assignments
-    const apiVersion = "2020-10-01";
-    const url = `https://management.azure.com/providers/Microsoft.Authorization/roleEligibilityScheduleInstances?api-version=${apiVersion}&$filter=asTarget()`;
-    
-    const data = await azureRestCall('GET', url) as any;
-    
-    const roles: PimRoleAssignment[] = [];
-    
-    if (data.value && Array.isArray(data.value)) {
-      for (const item of data.value) {
-        const props = item.properties || {};
-        
-        // Get role name from expanded properties
-        const roleName = props.expandedProperties?.roleDefinition?.displayName || "Unknown Role";
-        
-        // Get scope name from expanded properties  
-        const scopeName = props.expandedProperties?.scope?.displayName || 
-                         props.scope?.split("/").pop() || 
-                         props.scope || "";
-        
-        roles.push({
-          id: item.id || "",
-          roleDefinitionId: props.roleDefinitionId || "",
-          roleName,
-          scope: props.scope || "",
-          scopeName,
-          principalId: props.principalId || "",
-          principalType: props.principalType || "",
-          memberType: props.memberType || "Direct",
-          status: props.status || "Eligible",
-          roleEligibilityScheduleId: props.roleEligibilityScheduleId || undefined,
-        });
-      }
+async function* iterateEligibleResourceRoles(): AsyncGenerator<PimRoleAssignment> {
+  // Use the PIM API to get eligible role assignments
+  const apiVersion = "2020-10-01";
+  const url = `https://management.azure.com/providers/Microsoft.Authorization/roleEligibilityScheduleInstances?api-version=${apiVersion}&$filter=asTarget()`;
+  
+  for await (const page of azureRestPages(url)) {
+    for (const item of page) {
+      const props = item.properties || {};
+      
+      // Get role name from expanded properties
+      const roleName = props.expandedProperties?.roleDefinition?.displayName || "Unknown Role";
+      
+      // Get scope name from expanded properties  
+      const scopeName = props.expandedProperties?.scope?.displayName || 
+                       props.scope?.split("/").pop() || 
+                       props.scope || "";
+      
+      yield {
+        id: item.id || "",
+        roleDefinitionId: props.roleDefinitionId || "",
+        roleName,
+        scope: props.scope || "",
+        scopeName,
+        principalId: props.principalId || "",
+        principalType: props.principalType || "",
+        memberType: props.memberType || "Direct",
+        status: props.status || "Eligible",
+        roleEligibilityScheduleId: props.roleEligibilityScheduleId || undefined,
+        roleSource: "azureResource",
+      };
     }
+  }
+}
 
-    return {
-      success: true,
-      roles,
-      message: `Found ${roles.length} eligible PIM role assignments.`,
-    };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
+function eligibleRoleBackends(): [string, () => AsyncGenerator<PimRoleAssignment>][] {
+  return [
+    ["Azure resource roles", iterateEligibleResourceRoles],
+    ["Directory roles", iterateEligibleDirectoryRoles],
+    ["Group access", iterateEligibleGroupAccess],
+  ];
+}
+
+/**
+ * Stream eligible PIM role assignments for the current user one at a time, backend by backend
+ * and page by page. A failing backend is logged and skipped; if every backend fails, this throws.
+ */
+export async function* iterateEligibleRolesCli(): AsyncGenerator<PimRoleAssignment> {
+  const errors: string[] = [];
+  const backends = eligibleRoleBackends();
+
+  for (const [label, iterate] of backends) {
+    try {
+      yield* iterate();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error(`Warning: failed to list eligible ${label.toLowerCase()}: ${reason}`);
+      errors.push(`${label}: ${reason}`);
+    }
+  }
+
+  if (errors.length === backends.length) {
+    throw new Error(`Error listing eligible PIM roles: ${errors.join("; ")}`);
+  }
+}
+
+/**
+ * List all eligible PIM role assignments for the current user,
+ * covering Azure resource roles, Entra ID directory roles and group access.
+ * Backends that fail are reported in the message as long as one succeeds.
+ * With includePolicies, each role's activation policy is read as well.
+ */
+export async function listEligibleRolesCli(
+  options: { includePolicies?: boolean } = {}
+): Promise<CliListRolesResult> {
+  console.error("Fetching eligible role assignments...");
+
+  const backends = eligibleRoleBackends();
+  const results = await Promise.allSettled(backends.map(([, iterate]) => collect(iterate())));
+
+  const roles: PimRoleAssignment[] = [];
+  const errors: string[] = [];
+
+  results.forEach((result, i) => {
+    if (result.status === "fulfilled") {
+      roles.push(...result.value);
+    } else {
+      const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      errors.push(`${backends[i][0]}: ${reason}`);
+    }
+  });
+
+  if (errors.length === backends.length) {
     return {
       success: false,
       roles: [],
-      message: `Error listing PIM roles: ${errorMessage}`,
+      message: `Error listing PIM roles: ${errors.join("; ")}`,
     };
   }
+
+  if (options.includePolicies) {
+    await attachActivationPolicies(roles);
+  }
+
+  return {
+    success: true,
+    roles,
+    message: `Found ${roles.length} eligible PIM role assignments.${errors.length > 0 ? ` Warning: ${errors.join("; ")}` : ""}`,
+  };
+}
+
+/**
+ * Read the activation policy for each role, once per role definition and scope.
+ * Roles whose policy can't be read are left without one.
+ */
+async function attachActivationPolicies(roles: PimRoleAssignment[]): Promise<void> {
+  const policies = new Map<string, Promise<ActivationPolicy | undefined>>();
+
+  await Promise.all(roles.map(async (role) => {
+    const key = `${role.roleSource}|${role.scope}|${role.roleDefinitionId}`;
+    if (!policies.has(key)) {
+      policies.set(key, getActivationPolicyCli(role).catch((error) => {
+        console.error(`Warning: could not read activation policy for ${role.roleName} (${role.scopeName}): ${error instanceof Error ? error.message : String(error)}`);
+        return undefined;
+      }));
+    }
+    role.policy = await policies.get(key);
+  }));
+}
+
+/**
+ * Resolve requested roles against the active role assignments, the same way activation
+ * resolves them against eligible roles. A request matching no assignment, or several,
+ * becomes a failure that names the candidates.
+ */
+export function resolveActiveRoles(
+  roles: RoleRequest[],
+  active: ActiveRoleAssignment[]
+): {
+  resolved: { identifier: string; assignment: ActiveRoleAssignment }[];
+  failedRoles: { role: string; error: string }[];
+} {
+  const resolved: { identifier: string; assignment: ActiveRoleAssignment }[] = [];
+  const failedRoles: { role: string; error: string }[] = [];
+
+  for (const role of roles) {
+    const identifier = `${role.name} (${role.scope})`;
+    const resolution = resolveRole(role, active);
+    if (resolution.status === "resolved") {
+      resolved.push({ identifier, assignment: resolution.role });
+    } else {
+      failedRoles.push({ role: identifier, error: describeResolutionFailure(resolution, "active") });
+    }
+  }
+
+  return { resolved, failedRoles };
+}
+
+/**
+ * Resolve requested roles against the current user's eligible roles without activating anything.
+ * Succeeds only if every request resolves to exactly one role.
+ */
+export async function resolveRolesCli(roles: RoleRequest[]): Promise<CliResolveRolesResult> {
+  const listResult = await listEligibleRolesCli();
+  if (!listResult.success) {
+    return { success: false, resolutions: [], message: listResult.message };
+  }
+
+  const resolutions = roles.map((role) => resolveRole(role, listResult.roles));
+  const unresolved = resolutions.filter((r) => r.status !== "resolved");
+
+  return {
+    success: unresolved.length === 0,
+    resolutions,
+    message: unresolved.length === 0
+      ? `Resolved ${resolutions.length} role(s).`
+      : unresolved.map((r) => describeResolutionFailure(r)).join(" "),
+  };
 }
 
 /**
- * Activate a PIM role using Azure CLI
+ * Activate a PIM role using Azure CLI, now or from a future startDateTime
  * For group-based assignments, we need to pass the linkedRoleEligibilityScheduleId
  */
 export async function activateRoleCli(
@@ -270,8 +617,10 @@ export async function activateRoleCli(
   userPrincipalId: string,  // This should be the USER's ID, not the group's
   justification: string,
   durationHours: number = 8,
-  linkedRoleEligibilityScheduleId?: string
-): Promise<{ success: boolean; message: string }> {
+  linkedRoleEligibilityScheduleId?: string,
+  ticketInfo?: TicketInfo,
+  startDateTime?: string
+): Promise<ActivationAttempt> {
   try {
     const apiVersion = "2020-10-01";
 
@@ -289,7 +638,7 @@ export async function activateRoleCli(
         scheduleInfo: {
           expiration: {
             type: "AfterDuration",
-            duration: `PT${durationHours}H`,
+            duration: formatIsoDuration(durationHours),
           },
         },
       },
@@ -300,6 +649,14 @@ export async function activateRoleCli(
       requestBody.properties.linkedRoleEligibilityScheduleId = linkedRoleEligibilityScheduleId;
     }
 
+    if (ticketInfo?.ticketNumber || ticketInfo?.ticketSystem) {
+      requestBody.properties.ticketInfo = ticketInfo;
+    }
+
+    if (startDateTime) {
+      requestBody.properties.scheduleInfo.startDateTime = startDateTime;
+    }
+
     // Make the activation request
     const activationUrl = `https://management.azure.com${scope}/providers/Microsoft.Authorization/roleAssignmentScheduleRequests/${requestName}?api-version=${apiVersion}`;
     
@@ -308,20 +665,23 @@ export async function activateRoleCli(
     const activationResult = await azureRestCall('PUT', activationUrl, requestBody) as any;
     
     const status = activationResult.properties?.status;
-    if (status === "Provisioned" || 
-        status === "PendingApproval" ||
-        status === "Accepted" ||
-        status === "ScheduleCreated" ||
-        activationResult.id) {
+    const state = activationStateFromStatus(status, startDateTime);
+    if (state === "denied" || state === "failed") {
       return {
-        success: true,
-        message: `Role activation ${status || "submitted"} successfully`,
+        success: false,
+        message: `Role activation ${status}`,
+        state,
+        requestId: activationResult.id,
+        status,
       };
     }
     
     return {
       success: true,
-      message: "Role activation request submitted",
+      message: `Role activation ${status || "submitted"} successfully`,
+      state,
+      requestId: activationResult.id,
+      status,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -332,6 +692,7 @@ export async function activateRoleCli(
       return {
         success: true,
         message: "Role is already activated",
+        state: "activated",
       };
     }
     
@@ -343,17 +704,116 @@ export async function activateRoleCli(
 }
 
 /**
- * Activate multiple PIM roles by name and scope using Azure CLI
+ * Activate multiple PIM roles by name and scope, or by eligibility instance ID, using Azure CLI.
+ * The result includes how many requests were retried because of throttling or transient errors.
  */
 export async function activatePimRolesCli(
-  roles: { name: string; scope: string }[],
+  roles: RoleActivationRequest[],
   justification: string,
-  durationHours: number = 8
+  durationHours: number = 8,
+  options: ActivationOptions = {}
 ): Promise<CliActivationResult> {
+  const [result, retryCount] = await countRetries(() =>
+    activateMatchingRoles(roles, justification, durationHours, options)
+  );
+  if (retryCount > 0) {
+    console.error(`Activation needed ${retryCount} retried request(s)`);
+  }
+  return { ...result, retryCount };
+}
+
+function roleLabel(role: RoleActivationRequest): string {
+  return role.name || !role.id ? `${role.name} (${role.scope})` : role.id;
+}
+
+/**
+ * Work out when an activation starts and how long it lasts.
+ * An explicit endDateTime is turned into a duration so the policy maximum still applies.
+ */
+function resolveActivationSchedule(
+  durationHours: number,
+  options: ActivationOptions
+): { startDateTime?: string; durationHours: number } {
+  const start = options.startDateTime !== undefined ? new Date(options.startDateTime) : undefined;
+  if (start && isNaN(start.getTime())) {
+    throw new Error(`Invalid startDateTime: ${options.startDateTime}`);
+  }
+
+  if (options.endDateTime === undefined) {
+    return { startDateTime: start?.toISOString(), durationHours };
+  }
+
+  const end = new Date(options.endDateTime);
+  if (isNaN(end.getTime())) {
+    throw new Error(`Invalid endDateTime: ${options.endDateTime}`);
+  }
+  const startTime = start?.getTime() ?? Date.now();
+  if (end.getTime() <= startTime) {
+    throw new Error("endDateTime must be after the activation start");
+  }
+
+  // Round to whole minutes, the finest duration formatIsoDuration sends
+  const minutes = Math.round((end.getTime() - startTime) / 60000);
+  return { startDateTime: start?.toISOString(), durationHours: minutes / 60 };
+}
+
+function plannedRole(role: string, eligible: PimRoleAssignment): Omit<PlannedActivation, "expectedOutcome"> {
+  return {
+    role,
+    id: eligible.id,
+    roleDefinitionId: eligible.roleDefinitionId,
+    roleName: eligible.roleName,
+    scope: eligible.scope,
+    scopeName: eligible.scopeName,
+    roleSource: eligible.roleSource,
+    memberType: eligible.memberType,
+  };
+}
+
+function isSameAssignment(active: ActiveRoleAssignment, eligible: PimRoleAssignment): boolean {
+  const normalize = (scope: string) => scope.toLowerCase().replace(/\/+$/, "");
+  return active.roleSource === eligible.roleSource &&
+    active.roleDefinitionId.toLowerCase() === eligible.roleDefinitionId.toLowerCase() &&
+    normalize(active.scope) === normalize(eligible.scope);
+}
+
+function planSummary(plan: PlannedActivation[]): string {
+  const counts: [PlannedActivation["expectedOutcome"], string][] = [
+    ["activated", "would be activated"],
+    ["pendingApproval", "would need approval"],
+    ["scheduled", "would be scheduled"],
+    ["alreadyActive", "already active"],
+    ["failed", "would fail"],
+  ];
+  const parts = counts
+    .map(([outcome, label]) => [plan.filter((p) => p.expectedOutcome === outcome).length, label] as const)
+    .filter(([count]) => count > 0)
+    .map(([count, label]) => `${count} role(s) ${label}`);
+  return `Dry run, nothing was submitted: ${parts.join(", ") || "no roles requested"}.`;
+}
+
+async function activateMatchingRoles(
+  roles: RoleActivationRequest[],
+  justification: string,
+  requestedDurationHours: number,
+  options: ActivationOptions
+): Promise<Omit<CliActivationResult, "retryCount">> {
   const activatedRoles: string[] = [];
+  const pendingApprovalRoles: string[] = [];
+  const submittedRoles: string[] = [];
+  const scheduledRoles: string[] = [];
   const failedRoles: { role: string; error: string }[] = [];
+  const warnings: { role: string; message: string }[] = [];
+  let requests: ActivationRequest[] = [];
+  // Audit details of each request sent, to record how it turned out after waiting for provisioning
+  const auditedRequests = new Map<string, NewAuditEntry>();
+  const plan: PlannedActivation[] = [];
+  const resolvedRoles = new Map<string, PimRoleAssignment>();
 
   try {
+    const { startDateTime, durationHours: scheduledDurationHours } =
+      resolveActivationSchedule(requestedDurationHours, options);
+
     // Get the current user's principal ID
     console.error("Getting current user principal ID...");
     const userPrincipalId = await getCurrentUserPrincipalId();
@@ -367,93 +827,976 @@ export async function activatePimRolesCli(
       return {
         success: false,
         activatedRoles: [],
+        pendingApprovalRoles: [],
+        submittedRoles: [],
+        scheduledRoles: [],
         failedRoles: roles.map((r) => ({
-          role: `${r.name} (${r.scope})`,
+          role: roleLabel(r),
           error: listResult.message,
         })),
+        warnings: [],
+        requests: [],
         message: listResult.message,
       };
     }
 
+    // A dry run can't rely on PIM reporting roles that are already active, so it looks them up
+    let activeRoles: ActiveRoleAssignment[] | undefined;
+    if (options.dryRun) {
+      const activeResult = await listActiveRolesCli();
+      activeRoles = activeResult.success ? activeResult.roles : undefined;
+    }
+
     // Match and activate each requested role
     for (const role of roles) {
-      const roleIdentifier = `${role.name} (${role.scope})`;
+      const roleIdentifier = roleLabel(role);
       console.error(`Looking for role: ${roleIdentifier}`);
       
-      // Find matching eligible role
-      const matchingRole = listResult.roles.find((r) => {
-        const nameMatch = r.roleName.toLowerCase().includes(role.name.toLowerCase()) ||
-                         role.name.toLowerCase().includes(r.roleName.toLowerCase());
-        const scopeMatch = r.scope.toLowerCase().includes(role.scope.toLowerCase()) ||
-                          r.scopeName.toLowerCase().includes(role.scope.toLowerCase()) ||
-                          role.scope.toLowerCase().includes(r.scopeName.toLowerCase());
-        return nameMatch && scopeMatch;
-      });
-
-      if (!matchingRole) {
+      // Find the one eligible role this request means, rather than the first loose match
+      const resolution = resolveRole(role, listResult.roles);
+
+      if (resolution.status !== "resolved") {
         failedRoles.push({
           role: roleIdentifier,
-          error: `Could not find eligible role matching "${role.name}" at scope "${role.scope}"`,
+          error: describeResolutionFailure(resolution),
         });
         continue;
       }
 
-      console.error(`Found matching role: ${matchingRole.roleName} at ${matchingRole.scopeName} (${matchingRole.memberType})`);
+      const matchingRole = resolution.role;
+      resolvedRoles.set(roleIdentifier, matchingRole);
+      console.error(`Found matching role (${resolution.matchedBy}): ${matchingRole.roleName} at ${matchingRole.scopeName} (${matchingRole.memberType})`);
+
+      // A per-role duration applies unless an explicit endDateTime set it for every role
+      const durationHours = role.durationHours !== undefined && options.endDateTime === undefined
+        ? role.durationHours
+        : scheduledDurationHours;
+
+      // Check the role's policy up front, so we fail early instead of at submit time
+      let roleDurationHours = durationHours;
+      let policy: ActivationPolicy | undefined;
+      try {
+        policy = await getActivationPolicyCli(matchingRole);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        console.error(`Could not read activation policy for ${roleIdentifier}: ${reason}`);
+      }
+
+      if (policy) {
+        const maxHours = policy.maximumDurationHours;
+        if (maxHours !== undefined && durationHours > maxHours) {
+          if (options.durationPolicy === "reject") {
+            failedRoles.push({
+              role: roleIdentifier,
+              error: `Requested duration of ${durationHours}h exceeds the policy maximum of ${maxHours}h`,
+            });
+            continue;
+          }
+          roleDurationHours = maxHours;
+          warnings.push({
+            role: roleIdentifier,
+            message: `Duration reduced from ${durationHours}h to the policy maximum of ${maxHours}h`,
+          });
+        }
+
+        if (policy.requiresTicket && !options.ticketNumber) {
+          failedRoles.push({
+            role: roleIdentifier,
+            error: "Policy requires a ticket number for activation; provide ticketNumber (and ticketSystem)",
+          });
+          continue;
+        }
+        if (policy.requiresApproval) {
+          warnings.push({ role: roleIdentifier, message: "Policy requires approval before the role becomes active" });
+        }
+        if (policy.requiresMfa) {
+          warnings.push({ role: roleIdentifier, message: "Policy requires multi-factor authentication; sign in with MFA if activation is rejected" });
+        }
+      }
       
       // Activate the role
       // For group-based assignments, pass the linkedRoleEligibilityScheduleId
       const linkedScheduleId = matchingRole.memberType === "Group" 
         ? matchingRole.roleEligibilityScheduleId 
         : undefined;
-        
-      // Always use the current user's principal ID for activation, not the group's
-      const activationResult = await activateRoleCli(
-        matchingRole.id,
-        matchingRole.scope,
-        matchingRole.roleDefinitionId,
-        userPrincipalId,
-        justification,
-        durationHours,
-        linkedScheduleId
-      );
 
-      if (activationResult.success) {
-        activatedRoles.push(roleIdentifier);
-        console.error(`Successfully activated: ${roleIdentifier}`);
-      } else {
+      if (options.dryRun) {
+        const startsLater = startDateTime !== undefined && new Date(startDateTime).getTime() > Date.now();
+        // Being active now doesn't cover an activation for a later window
+        const active = startsLater ? undefined : activeRoles?.find((r) => isSameAssignment(r, matchingRole));
+        plan.push({
+          ...plannedRole(roleIdentifier, matchingRole),
+          linkedRoleEligibilityScheduleId: matchingRole.roleSource === "azureResource" ? linkedScheduleId : undefined,
+          durationHours: roleDurationHours,
+          startDateTime,
+          expectedOutcome: active
+            ? "alreadyActive"
+            : policy?.requiresApproval
+            ? "pendingApproval"
+            : startsLater
+            ? "scheduled"
+            : "activated",
+          reason: active
+            ? `Already active${active.endDateTime ? ` until ${active.endDateTime}` : ""}`
+            : !activeRoles
+            ? "Active roles could not be read, so the role may already be active"
+            : !policy
+            ? "Activation policy could not be read, so approval or other requirements are unknown"
+            : undefined,
+        });
+        continue;
+      }
+        
+      const ticketInfo: TicketInfo = {
+        ticketNumber: options.ticketNumber,
+        ticketSystem: options.ticketSystem,
+      };
+
+      // Always use the current user's principal ID for activation, not the group's
+      const activationResult = matchingRole.roleSource === "directory"
+        ? await activateDirectoryRole(
+            matchingRole.scope,
+            matchingRole.roleDefinitionId,
+            userPrincipalId,
+            justification,
+            roleDurationHours,
+            ticketInfo,
+            startDateTime
+          )
+        : matchingRole.roleSource === "group"
+        ? await activateGroupAccess(
+            matchingRole.scope,
+            matchingRole.roleDefinitionId,
+            userPrincipalId,
+            justification,
+            roleDurationHours,
+            ticketInfo,
+            startDateTime
+          )
+        : await activateRoleCli(
+            matchingRole.id,
+            matchingRole.scope,
+            matchingRole.roleDefinitionId,
+            userPrincipalId,
+            justification,
+            roleDurationHours,
+            linkedScheduleId,
+            ticketInfo,
+            startDateTime
+          );
+
+      const audit: NewAuditEntry = {
+        action: "activate",
+        role: matchingRole.roleName,
+        scope: matchingRole.scope,
+        scopeName: matchingRole.scopeName,
+        roleSource: matchingRole.roleSource,
+        justification,
+        durationHours: roleDurationHours,
+        startDateTime,
+        ticketNumber: options.ticketNumber,
+        requestId: activationResult.requestId,
+        outcome: "submitted",
+      };
+
+      if (!activationResult.success) {
+        recordAudit([{ ...audit, outcome: "failed", error: activationResult.message }]);
         failedRoles.push({
           role: roleIdentifier,
           error: activationResult.message,
         });
         console.error(`Failed to activate ${roleIdentifier}: ${activationResult.message}`);
+      } else if (activationResult.requestId) {
+        recordAudit([{ ...audit, outcome: activationResult.state || "submitted" }]);
+        auditedRequests.set(activationResult.requestId, audit);
+        requests.push({
+          role: roleIdentifier,
+          roleSource: matchingRole.roleSource,
+          requestId: activationResult.requestId,
+          status: activationResult.status || "",
+          state: activationResult.state || "submitted",
+          startDateTime,
+        });
+        console.error(`Activation ${activationResult.status || "submitted"}: ${roleIdentifier}`);
+      } else {
+        // Already active, so there is no request to track
+        recordAudit([{ ...audit, outcome: "alreadyActive" }]);
+        activatedRoles.push(roleIdentifier);
+        console.error(`Already activated: ${roleIdentifier}`);
+      }
+    }
+
+    if (options.dryRun) {
+      for (const failure of failedRoles) {
+        const resolved = resolvedRoles.get(failure.role);
+        plan.push({
+          ...(resolved ? plannedRole(failure.role, resolved) : { role: failure.role }),
+          expectedOutcome: "failed",
+          reason: failure.error,
+        });
+      }
+      // Back in the order the roles were requested
+      const order = roles.map(roleLabel);
+      plan.sort((a, b) => order.indexOf(a.role) - order.indexOf(b.role));
+
+      return {
+        success: failedRoles.length === 0,
+        activatedRoles: [],
+        pendingApprovalRoles: [],
+        submittedRoles: [],
+        scheduledRoles: [],
+        failedRoles,
+        warnings,
+        requests: [],
+        plan,
+        message: planSummary(plan),
+      };
+    }
+
+    if (options.waitForProvisioning) {
+      const sentStates = new Map(requests.map((request) => [request.requestId, request.state]));
+      requests = await waitForActivationRequestsCli(
+        requests,
+        options.provisioningTimeoutSeconds ?? 120
+      );
+      // Each request was logged when it was sent; add an entry for those that moved on since
+      recordAudit(
+        requests
+          .filter((request) => request.state !== sentStates.get(request.requestId) || request.error)
+          .map((request) => ({
+            ...auditedRequests.get(request.requestId)!,
+            outcome: request.state,
+            error: request.error,
+          }))
+      );
+    }
+
+    for (const request of requests) {
+      if (request.state === "activated") {
+        activatedRoles.push(request.role);
+      } else if (request.state === "pendingApproval") {
+        pendingApprovalRoles.push(request.role);
+      } else if (request.state === "submitted") {
+        submittedRoles.push(request.role);
+      } else if (request.state === "scheduled") {
+        scheduledRoles.push(request.role);
+      } else {
+        failedRoles.push({ role: request.role, error: `Activation request ${request.status}` });
       }
     }
 
     return {
       success: failedRoles.length === 0,
       activatedRoles,
+      pendingApprovalRoles,
+      submittedRoles,
+      scheduledRoles,
       failedRoles,
-      message:
-        activatedRoles.length > 0
-          ? `Successfully activated ${activatedRoles.length} role(s).${failedRoles.length > 0 ? ` Failed to activate ${failedRoles.length} role(s).` : ""}`
-          : "No roles were activated.",
+      warnings,
+      requests,
+      message: activationSummary(activatedRoles, pendingApprovalRoles, submittedRoles, scheduledRoles, failedRoles),
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
+    // Requests already sent can't be taken back, so report them as submitted
+    const submitted = requests.map((r) => r.role);
     return {
       success: false,
       activatedRoles,
+      pendingApprovalRoles: [],
+      submittedRoles: submitted,
+      scheduledRoles: [],
       failedRoles: [
         ...failedRoles,
         ...roles
           .filter(
             (r) =>
-              !activatedRoles.includes(`${r.name} (${r.scope})`) &&
+              !activatedRoles.includes(roleLabel(r)) &&
+              !submitted.includes(roleLabel(r)) &&
+              !failedRoles.some((f) => f.role === roleLabel(r))
+          )
+          .map((r) => ({ role: roleLabel(r), error: errorMessage })),
+      ],
+      warnings,
+      requests,
+      message: `Error during PIM activation: ${errorMessage}`,
+    };
+  }
+}
+
+function activationSummary(
+  activatedRoles: string[],
+  pendingApprovalRoles: string[],
+  submittedRoles: string[],
+  scheduledRoles: string[],
+  failedRoles: { role: string; error: string }[]
+): string {
+  const parts: string[] = [];
+  if (activatedRoles.length > 0) {
+    parts.push(`Successfully activated ${activatedRoles.length} role(s).`);
+  }
+  if (pendingApprovalRoles.length > 0) {
+    parts.push(`${pendingApprovalRoles.length} role(s) pending approval.`);
+  }
+  if (submittedRoles.length > 0) {
+    parts.push(`${submittedRoles.length} role(s) submitted but not yet provisioned.`);
+  }
+  if (scheduledRoles.length > 0) {
+    parts.push(`${scheduledRoles.length} role(s) scheduled to start later.`);
+  }
+  if (failedRoles.length > 0) {
+    parts.push(`Failed to activate ${failedRoles.length} role(s).`);
+  }
+  return activatedRoles.length + pendingApprovalRoles.length + submittedRoles.length + scheduledRoles.length > 0
+    ? parts.join(" ")
+    : "No roles were activated.";
+}
+
+/**
+ * Read the current state of a previously submitted activation request
+ */
+export async function getActivationRequestStatusCli(request: ActivationRequest): Promise<ActivationRequest> {
+  try {
+    let status: string;
+    if (request.roleSource === "directory") {
+      status = await getDirectoryRoleRequestStatus(request.requestId);
+    } else if (request.roleSource === "group") {
+      status = await getGroupAccessRequestStatus(request.requestId);
+    } else {
+      const apiVersion = "2020-10-01";
+      const data = await azureRestCall(
+        'GET',
+        `https://management.azure.com${request.requestId}?api-version=${apiVersion}`
+      ) as any;
+      status = data.properties?.status || "";
+    }
+    return { ...request, status, state: activationStateFromStatus(status, request.startDateTime), error: undefined };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { ...request, error: `Failed to read request status: ${errorMessage}` };
+  }
+}
+
+/**
+ * Read the current state of several activation requests
+ */
+export async function checkActivationRequestsCli(requests: ActivationRequest[]): Promise<ActivationRequest[]> {
+  return Promise.all(requests.map((request) => getActivationRequestStatusCli(request)));
+}
+
+/**
+ * Poll activation requests until none are still pending or the timeout passes
+ */
+export async function waitForActivationRequestsCli(
+  requests: ActivationRequest[],
+  timeoutSeconds: number,
+  pollIntervalSeconds: number = 5
+): Promise<ActivationRequest[]> {
+  const deadline = Date.now() + timeoutSeconds * 1000;
+  let current = requests;
+
+  while (current.some((r) => isPendingState(r.state)) && Date.now() < deadline) {
+    console.error(`Waiting for ${current.filter((r) => isPendingState(r.state)).length} request(s) to be provisioned...`);
+    await new Promise((resolve) => setTimeout(resolve, pollIntervalSeconds * 1000));
+    current = await Promise.all(
+      current.map((r) => (isPendingState(r.state) ? getActivationRequestStatusCli(r) : r))
+    );
+  }
+
+  return current;
+}
+
+/**
+ * Yield the Azure resource role requests made by the current user via ARM, following pagination.
+ * Throws on API errors so the caller can combine this with the Graph backends.
+ */
+async function* iterateResourceRoleRequests(): AsyncGenerator<PimRoleRequest> {
+  const apiVersion = "2020-10-01";
+  const url = `https://management.azure.com/providers/Microsoft.Authorization/roleAssignmentScheduleRequests?api-version=${apiVersion}&$filter=asRequestor()`;
+
+  for await (const page of azureRestPages(url)) {
+    for (const item of page) {
+      const props = item.properties || {};
+      const startDateTime: string | undefined = props.scheduleInfo?.startDateTime;
+      const state = activationStateFromStatus(props.status, startDateTime, props.requestType);
+
+      yield {
+        requestId: item.id || "",
+        roleSource: "azureResource",
+        roleDefinitionId: props.roleDefinitionId || "",
+        roleName: props.expandedProperties?.roleDefinition?.displayName || "Unknown Role",
+        scope: props.scope || "",
+        scopeName: props.expandedProperties?.scope?.displayName || props.scope?.split("/").pop() || props.scope || "",
+        requestType: props.requestType || "",
+        status: props.status || "",
+        state,
+        justification: props.justification || undefined,
+        ticketNumber: props.ticketInfo?.ticketNumber || undefined,
+        createdDateTime: props.createdOn || undefined,
+        startDateTime,
+        endDateTime: scheduleEndDateTime(props.scheduleInfo),
+        approvalId: props.approvalId || undefined,
+        cancellable: isCancellableState(state),
+      };
+    }
+  }
+}
+
+/**
+ * Read who decided an Azure resource role request's approval
+ */
+async function getResourceRoleApprover(approvalId: string): Promise<string | undefined> {
+  // approvalId may be a bare ID or the approval's resource ID
+  const path = approvalId.startsWith("/")
+    ? approvalId
+    : `/providers/Microsoft.Authorization/roleAssignmentApprovals/${approvalId}`;
+  const result = await azureRestCall(
+    'GET',
+    `https://management.azure.com${path}?api-version=2021-01-01-preview`
+  );
+  return approverNames(result);
+}
+
+function requestBackends(): [string, () => AsyncGenerator<PimRoleRequest>][] {
+  return [
+    ["Azure resource role requests", iterateResourceRoleRequests],
+    ["Directory role requests", iterateDirectoryRoleRequests],
+    ["Group access requests", iterateGroupAccessRequests],
+  ];
+}
+
+/**
+ * List the current user's PIM requests across Azure resource roles, Entra ID directory roles and
+ * group access, newest first. Backends that fail are reported in the message as long as one succeeds.
+ * The approver of each decided request that went through approval is looked up, best effort.
+ */
+export async function listRoleRequestsCli(
+  options: { pendingOnly?: boolean; limit?: number } = {}
+): Promise<CliListRequestsResult> {
+  console.error("Fetching role requests...");
+
+  const backends = requestBackends();
+  const results = await Promise.allSettled(backends.map(([, iterate]) => collect(iterate())));
+
+  let requests: PimRoleRequest[] = [];
+  const errors: string[] = [];
+  results.forEach((result, i) => {
+    if (result.status === "fulfilled") {
+      requests.push(...result.value);
+    } else {
+      const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      errors.push(`${backends[i][0]}: ${reason}`);
+    }
+  });
+
+  if (errors.length === backends.length) {
+    return {
+      success: false,
+      requests: [],
+      message: `Error listing PIM requests: ${errors.join("; ")}`,
+    };
+  }
+
+  const createdTime = (request: PimRoleRequest) =>
+    request.createdDateTime ? new Date(request.createdDateTime).getTime() : 0;
+  requests.sort((a, b) => createdTime(b) - createdTime(a));
+  if (options.pendingOnly) {
+    requests = requests.filter((r) => r.cancellable);
+  }
+  if (options.limit !== undefined) {
+    requests = requests.slice(0, options.limit);
+  }
+
+  // Requests still waiting on approval haven't been reviewed yet
+  requests = await Promise.all(
+    requests.map(async (request) => {
+      if (!request.approvalId || request.state === "pendingApproval") {
+        return request;
+      }
+      try {
+        const approver = request.roleSource === "directory"
+          ? await getDirectoryRoleApprover(request.approvalId)
+          : request.roleSource === "group"
+          ? await getGroupAccessApprover(request.approvalId)
+          : await getResourceRoleApprover(request.approvalId);
+        return { ...request, approver };
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        console.error(`Could not read the approval for request ${request.requestId}: ${reason}`);
+        return request;
+      }
+    })
+  );
+
+  const pending = requests.filter((r) => r.cancellable).length;
+  return {
+    success: true,
+    requests,
+    message: `Found ${requests.length} PIM request(s), ${pending} pending or scheduled.${errors.length > 0 ? ` Warning: ${errors.join("; ")}` : ""}`,
+  };
+}
+
+/**
+ * Cancel a PIM request that is still pending approval, waiting to be provisioned or scheduled
+ * to start later, using the request's cancel action
+ */
+export async function cancelRoleRequestCli(
+  request: { requestId: string; roleSource: RoleSource }
+): Promise<CliCancelRequestResult> {
+  try {
+    console.error(`Cancelling request: ${request.requestId}`);
+    if (request.roleSource === "directory") {
+      await cancelDirectoryRoleRequest(request.requestId);
+    } else if (request.roleSource === "group") {
+      await cancelGroupAccessRequest(request.requestId);
+    } else {
+      await azureRestCall(
+        'POST',
+        `https://management.azure.com${request.requestId}/cancel?api-version=2020-10-01`
+      );
+    }
+
+    return {
+      success: true,
+      requestId: request.requestId,
+      message: "Request cancelled successfully",
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      requestId: request.requestId,
+      message: `Failed to cancel request: ${errorMessage}`,
+    };
+  }
+}
+
+/**
+ * Deactivate an active PIM role assignment before it expires.
+ * Azure PIM rejects deactivation within the first few minutes after activation.
+ */
+export async function deactivateRoleCli(
+  scope: string,
+  roleDefinitionId: string,
+  userPrincipalId: string,
+  linkedRoleEligibilityScheduleId?: string
+): Promise<ActivationAttempt> {
+  try {
+    const apiVersion = "2020-10-01";
+    const requestName = randomUUID();
+
+    const requestBody: any = {
+      properties: {
+        principalId: userPrincipalId,
+        roleDefinitionId,
+        requestType: "SelfDeactivate",
+      },
+    };
+
+    if (linkedRoleEligibilityScheduleId) {
+      requestBody.properties.linkedRoleEligibilityScheduleId = linkedRoleEligibilityScheduleId;
+    }
+
+    const deactivationUrl = `https://management.azure.com${scope}/providers/Microsoft.Authorization/roleAssignmentScheduleRequests/${requestName}?api-version=${apiVersion}`;
+
+    console.error(`Deactivating role at scope: ${scope}`);
+
+    const deactivationResult = await azureRestCall('PUT', deactivationUrl, requestBody) as any;
+
+    const status = deactivationResult.properties?.status;
+    const state = activationStateFromStatus(status, undefined, "SelfDeactivate");
+    return {
+      success: state !== "denied" && state !== "failed",
+      message: state === "denied" || state === "failed"
+        ? `Role deactivation ${status}`
+        : `Role deactivation ${status || "submitted"} successfully`,
+      state,
+      requestId: deactivationResult.id,
+      status,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    if (errorMessage.includes("ActiveDurationTooShort")) {
+      return {
+        success: false,
+        message: "Role was activated too recently to be deactivated. Wait a few minutes and try again.",
+      };
+    }
+
+    return {
+      success: false,
+      message: `Failed to deactivate role: ${errorMessage}`,
+    };
+  }
+}
+
+/**
+ * Deactivate active PIM roles by name and scope, or every active role when deactivateAll is set
+ */
+export async function deactivatePimRolesCli(
+  roles: { name: string; scope: string; roleSource?: RoleSource }[],
+  deactivateAll: boolean = false
+): Promise<CliDeactivationResult> {
+  const [result, retryCount] = await countRetries(() => deactivateMatchingRoles(roles, deactivateAll));
+  if (retryCount > 0) {
+    console.error(`Deactivation needed ${retryCount} retried request(s)`);
+  }
+  return { ...result, retryCount };
+}
+
+async function deactivateMatchingRoles(
+  roles: { name: string; scope: string; roleSource?: RoleSource }[],
+  deactivateAll: boolean
+): Promise<Omit<CliDeactivationResult, "retryCount">> {
+  const deactivatedRoles: string[] = [];
+  const failedRoles: { role: string; error: string }[] = [];
+  const warnings: { role: string; message: string }[] = [];
+  const requests: ActivationRequest[] = [];
+  let pendingCount = 0;
+
+  try {
+    console.error("Getting current user principal ID...");
+    const userPrincipalId = await getCurrentUserPrincipalId();
+
+    console.error("Fetching active roles...");
+    const listResult = await listActiveRolesCli();
+
+    if (!listResult.success) {
+      return {
+        success: false,
+        deactivatedRoles: [],
+        failedRoles: roles.map((r) => ({
+          role: `${r.name} (${r.scope})`,
+          error: listResult.message,
+        })),
+        warnings,
+        requests,
+        message: listResult.message,
+      };
+    }
+
+    // Pair each requested role with the active assignment it refers to
+    const targets: { identifier: string; assignment: ActiveRoleAssignment }[] = [];
+    if (deactivateAll) {
+      for (const assignment of listResult.roles) {
+        targets.push({
+          identifier: `${assignment.roleName} (${assignment.scopeName})`,
+          assignment,
+        });
+      }
+      // Scheduled activations aren't active yet, so there is nothing to deactivate
+      for (const scheduled of listResult.scheduledRoles) {
+        warnings.push({
+          role: `${scheduled.roleName} (${scheduled.scopeName})`,
+          message: `Scheduled to start ${scheduled.startDateTime ?? "later"} and left in place; cancel its request to withdraw it`,
+        });
+      }
+    } else {
+      const resolution = resolveActiveRoles(roles, listResult.roles);
+      targets.push(...resolution.resolved);
+      failedRoles.push(...resolution.failedRoles);
+    }
+
+    for (const { identifier, assignment } of targets) {
+      const deactivationResult = assignment.roleSource === "directory"
+        ? await deactivateDirectoryRole(
+            assignment.scope,
+            assignment.roleDefinitionId,
+            userPrincipalId
+          )
+        : assignment.roleSource === "group"
+        ? await deactivateGroupAccess(
+            assignment.scope,
+            assignment.roleDefinitionId,
+            userPrincipalId
+          )
+        : await deactivateRoleCli(
+            assignment.scope,
+            assignment.roleDefinitionId,
+            userPrincipalId,
+            assignment.linkedRoleEligibilityScheduleId
+          );
+
+      recordAudit([{
+        action: "deactivate",
+        role: assignment.roleName,
+        scope: assignment.scope,
+        scopeName: assignment.scopeName,
+        roleSource: assignment.roleSource,
+        outcome: deactivationResult.success ? deactivationResult.state ?? "submitted" : "failed",
+        requestId: deactivationResult.requestId,
+        error: deactivationResult.success ? undefined : deactivationResult.message,
+      }]);
+
+      if (deactivationResult.requestId) {
+        requests.push({
+          role: identifier,
+          roleSource: assignment.roleSource,
+          requestId: deactivationResult.requestId,
+          status: deactivationResult.status ?? "",
+          state: deactivationResult.state ?? "submitted",
+        });
+      }
+
+      if (deactivationResult.success && deactivationResult.state === "deactivated") {
+        deactivatedRoles.push(identifier);
+        console.error(`Successfully deactivated: ${identifier}`);
+      } else if (deactivationResult.success) {
+        // Accepted but not yet in effect; the request is listed so it can be followed up
+        pendingCount++;
+        warnings.push({
+          role: identifier,
+          message: `Deactivation ${deactivationResult.status || "submitted"} and not yet in effect`,
+        });
+        console.error(`Deactivation of ${identifier} is ${deactivationResult.status || "submitted"}`);
+      } else {
+        failedRoles.push({
+          role: identifier,
+          error: deactivationResult.message,
+        });
+        console.error(`Failed to deactivate ${identifier}: ${deactivationResult.message}`);
+      }
+    }
+
+    return {
+      success: failedRoles.length === 0,
+      deactivatedRoles,
+      failedRoles,
+      warnings,
+      requests,
+      message:
+        deactivatedRoles.length > 0
+          ? `Successfully deactivated ${deactivatedRoles.length} role(s).${pendingCount > 0 ? ` ${pendingCount} deactivation(s) still pending.` : ""}${failedRoles.length > 0 ? ` Failed to deactivate ${failedRoles.length} role(s).` : ""}`
+          : pendingCount > 0
+          ? `${pendingCount} deactivation(s) submitted but not yet in effect.`
+          : "No roles were deactivated.",
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      deactivatedRoles,
+      failedRoles: [
+        ...failedRoles,
+        ...roles
+          .filter(
+            (r) =>
+              !deactivatedRoles.includes(`${r.name} (${r.scope})`) &&
               !failedRoles.some((f) => f.role === `${r.name} (${r.scope})`)
           )
           .map((r) => ({ role: `${r.name} (${r.scope})`, error: errorMessage })),
       ],
-      message: `Error during PIM activation: ${errorMessage}`,
+      warnings,
+      requests,
+      message: `Error during PIM deactivation: ${errorMessage}`,
+    };
+  }
+}
+
+/**
+ * Extend an active PIM role assignment so it lasts durationHours from now.
+ * Most role management policies restrict or forbid extension, in which case
+ * Azure rejects the request and the policy error is returned in the message.
+ */
+export async function extendRoleCli(
+  assignment: ActiveRoleAssignment,
+  userPrincipalId: string,
+  justification: string,
+  durationHours: number = 8
+): Promise<ExtensionAttempt> {
+  try {
+    const apiVersion = "2020-10-01";
+    const requestName = randomUUID();
+    const startDateTime = new Date().toISOString();
+
+    const requestBody: any = {
+      properties: {
+        principalId: userPrincipalId,
+        roleDefinitionId: assignment.roleDefinitionId,
+        requestType: "SelfExtend",
+        justification,
+        scheduleInfo: {
+          startDateTime,
+          expiration: {
+            type: "AfterDuration",
+            duration: formatIsoDuration(durationHours),
+          },
+        },
+      },
+    };
+
+    if (assignment.roleAssignmentScheduleId) {
+      requestBody.properties.targetRoleAssignmentScheduleId = assignment.roleAssignmentScheduleId;
+    }
+    if (assignment.linkedRoleEligibilityScheduleId) {
+      requestBody.properties.linkedRoleEligibilityScheduleId = assignment.linkedRoleEligibilityScheduleId;
+    }
+
+    const extensionUrl = `https://management.azure.com${assignment.scope}/providers/Microsoft.Authorization/roleAssignmentScheduleRequests/${requestName}?api-version=${apiVersion}`;
+
+    console.error(`Extending role at scope: ${assignment.scope}`);
+
+    const extensionResult = await azureRestCall('PUT', extensionUrl, requestBody) as any;
+
+    const status = extensionResult.properties?.status;
+    const state = activationStateFromStatus(status, undefined, "SelfExtend");
+    return {
+      success: state !== "denied" && state !== "failed",
+      message: state === "denied" || state === "failed"
+        ? `Role extension ${status}`
+        : `Role extension ${status || "submitted"} successfully`,
+      state,
+      requestId: extensionResult.id,
+      status,
+      // Only an extension that took effect has a new end time, and only the schedule Azure reports counts
+      endDateTime: state === "activated" ? scheduleEndDateTime(extensionResult.properties?.scheduleInfo) : undefined,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    if (errorMessage.includes("RoleAssignmentRequestPolicyValidationFailed") ||
+        errorMessage.includes("PolicyViolation")) {
+      return {
+        success: false,
+        message: `Extension is not allowed by the role management policy: ${errorMessage}`,
+      };
+    }
+
+    return {
+      success: false,
+      message: `Failed to extend role: ${errorMessage}`,
+    };
+  }
+}
+
+/**
+ * Summarize an extension request from the number of roles extended, still pending and failed
+ */
+export function extensionMessage(extended: number, failed: number, pending: number = 0): string {
+  const pendingNote = pending > 0 ? ` ${pending} extension(s) still pending.` : "";
+  const failedNote = failed > 0 ? ` Failed to extend ${failed} role(s).` : "";
+  return extended > 0
+    ? `Successfully extended ${extended} role(s).${pendingNote}${failedNote}`
+    : pending > 0
+    ? `${pending} extension(s) submitted but not yet in effect.${failedNote}`
+    : "No roles were extended.";
+}
+
+/**
+ * Extend active PIM role assignments, as returned by listActiveRolesCli, by a new duration
+ */
+export async function extendPimRolesCli(
+  roles: ActiveRoleAssignment[],
+  justification: string,
+  durationHours: number = 8
+): Promise<CliExtensionResult> {
+  const extendedRoles: { role: string; endDateTime?: string }[] = [];
+  const pendingRoles: string[] = [];
+  const failedRoles: { role: string; error: string }[] = [];
+  const requests: ActivationRequest[] = [];
+
+  try {
+    console.error("Getting current user principal ID...");
+    const userPrincipalId = await getCurrentUserPrincipalId();
+
+    for (const assignment of roles) {
+      const roleIdentifier = `${assignment.roleName} (${assignment.scopeName})`;
+
+      const extensionResult = assignment.roleSource === "directory"
+        ? await extendDirectoryRole(
+            assignment.scope,
+            assignment.roleDefinitionId,
+            userPrincipalId,
+            justification,
+            durationHours
+          )
+        : assignment.roleSource === "group"
+        ? await extendGroupAccess(
+            assignment.scope,
+            assignment.roleDefinitionId,
+            userPrincipalId,
+            justification,
+            durationHours
+          )
+        : await extendRoleCli(
+            assignment,
+            userPrincipalId,
+            justification,
+            durationHours
+          );
+
+      recordAudit([{
+        action: "extend",
+        role: assignment.roleName,
+        scope: assignment.scope,
+        scopeName: assignment.scopeName,
+        roleSource: assignment.roleSource,
+        justification,
+        durationHours,
+        endDateTime: extensionResult.endDateTime,
+        outcome: !extensionResult.success
+          ? "failed"
+          : extensionResult.state === "activated"
+          ? "extended"
+          : extensionResult.state ?? "submitted",
+        requestId: extensionResult.requestId,
+        error: extensionResult.success ? undefined : extensionResult.message,
+      }]);
+
+      if (extensionResult.requestId) {
+        requests.push({
+          role: roleIdentifier,
+          roleSource: assignment.roleSource,
+          requestId: extensionResult.requestId,
+          status: extensionResult.status ?? "",
+          state: extensionResult.state ?? "submitted",
+        });
+      }
+
+      if (extensionResult.success && extensionResult.state === "activated") {
+        extendedRoles.push({ role: roleIdentifier, endDateTime: extensionResult.endDateTime });
+        console.error(`Successfully extended: ${roleIdentifier}${extensionResult.endDateTime ? ` until ${extensionResult.endDateTime}` : ""}`);
+      } else if (extensionResult.success) {
+        pendingRoles.push(roleIdentifier);
+        console.error(`Extension of ${roleIdentifier} is ${extensionResult.status || "submitted"}`);
+      } else {
+        failedRoles.push({
+          role: roleIdentifier,
+          error: extensionResult.message,
+        });
+        console.error(`Failed to extend ${roleIdentifier}: ${extensionResult.message}`);
+      }
+    }
+
+    return {
+      success: failedRoles.length === 0,
+      extendedRoles,
+      pendingRoles,
+      failedRoles,
+      requests,
+      message: extensionMessage(extendedRoles.length, failedRoles.length, pendingRoles.length),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      extendedRoles,
+      pendingRoles,
+      failedRoles: [
+        ...failedRoles,
+        ...roles
+          .map((r) => `${r.roleName} (${r.scopeName})`)
+          .filter(
+            (identifier) =>
+              !extendedRoles.some((e) => e.role === identifier) &&
+              !pendingRoles.includes(identifier) &&
+              !failedRoles.some((f) => f.role === identifier)
+          )
+          .map((identifier) => ({ role: identifier, error: errorMessage })),
+      ],
+      requests,
+      message: `Error during PIM extension: ${errorMessage}`,
     };
   }
 }
@@ -0,0 +1,392 @@
+import { azureRestCall, azureRestPages, GRAPH_RESOURCE } from "./azure-rest.js";
+import type { PimRoleAssignment, ActiveRoleAssignment, PimRoleRequest } from "./pim-cli.js";
+import {
+  activationStateFromStatus,
+  isCancellableState,
+  requestTypeFromAction,
+  scheduleEndDateTime,
+  approverNames,
+  type ActivationAttempt,
+  type ExtensionAttempt,
+  type TicketInfo,
+} from "./activation-state.js";
+import { formatIsoDuration } from "./pim-policy.js";
+
+/**
+ * Entra ID (directory) role backend.
+ * Directory roles such as Global Reader or User Administrator are managed through
+ * Microsoft Graph rather than ARM, so they get their own list/activate calls here.
+ */
+
+const ROLE_MANAGEMENT_URL = `${GRAPH_RESOURCE}/v1.0/roleManagement/directory`;
+
+/**
+ * Get a display name for a directory scope ID.
+ * "/" is the whole tenant; anything else is an administrative unit or app scope.
+ */
+function directoryScopeName(directoryScopeId: string): string {
+  if (!directoryScopeId || directoryScopeId === "/") {
+    return "Directory";
+  }
+  return directoryScopeId.split("/").pop() || directoryScopeId;
+}
+
+/**
+ * Yield eligible directory roles for the current user, including those granted through groups,
+ * following pagination. Throws on API errors so callers can decide how to combine this with ARM results.
+ */
+export async function* iterateEligibleDirectoryRoles(): AsyncGenerator<PimRoleAssignment> {
+  const url = `${ROLE_MANAGEMENT_URL}/roleEligibilityScheduleInstances/filterByCurrentUser(on='principal')?$expand=roleDefinition`;
+
+  for await (const page of azureRestPages(url)) {
+    for (const item of page) {
+      const directoryScopeId = item.directoryScopeId || "/";
+
+      yield {
+        id: item.id || "",
+        roleDefinitionId: item.roleDefinitionId || "",
+        roleName: item.roleDefinition?.displayName || "Unknown Role",
+        scope: directoryScopeId,
+        scopeName: directoryScopeName(directoryScopeId),
+        principalId: item.principalId || "",
+        principalType: "",
+        memberType: item.memberType || "Direct",
+        status: "Eligible",
+        roleEligibilityScheduleId: item.roleEligibilityScheduleId || undefined,
+        roleSource: "directory",
+      };
+    }
+  }
+}
+
+/**
+ * Yield active (PIM-activated) directory roles for the current user, following pagination.
+ * Throws on API errors so callers can decide how to combine this with ARM results.
+ */
+export async function* iterateActiveDirectoryRoles(): AsyncGenerator<ActiveRoleAssignment> {
+  const url = `${ROLE_MANAGEMENT_URL}/roleAssignmentScheduleInstances/filterByCurrentUser(on='principal')?$expand=roleDefinition`;
+
+  for await (const page of azureRestPages(url)) {
+    for (const item of page) {
+      // Only include PIM-activated roles, not permanent assignments
+      if (item.assignmentType !== "Activated") {
+        continue;
+      }
+
+      const directoryScopeId = item.directoryScopeId || "/";
+
+      yield {
+        id: item.id || "",
+        roleDefinitionId: item.roleDefinitionId || "",
+        roleName: item.roleDefinition?.displayName || "Unknown Role",
+        scope: directoryScopeId,
+        scopeName: directoryScopeName(directoryScopeId),
+        principalId: item.principalId || "",
+        principalType: "",
+        memberType: item.memberType || "Direct",
+        status: "Active",
+        startDateTime: item.startDateTime,
+        endDateTime: item.endDateTime,
+        roleAssignmentScheduleId: item.roleAssignmentScheduleId || undefined,
+        roleSource: "directory",
+      };
+    }
+  }
+}
+
+/**
+ * Yield directory role activations for the current user that are scheduled to start in the future.
+ * Schedules carry their times in scheduleInfo rather than at the top level like instances.
+ */
+export async function* iterateScheduledDirectoryRoles(): AsyncGenerator<ActiveRoleAssignment> {
+  const url = `${ROLE_MANAGEMENT_URL}/roleAssignmentSchedules/filterByCurrentUser(on='principal')?$expand=roleDefinition`;
+  const now = Date.now();
+
+  for await (const page of azureRestPages(url)) {
+    for (const item of page) {
+      const startDateTime: string | undefined = item.scheduleInfo?.startDateTime;
+      if (item.assignmentType !== "Activated" || !startDateTime || new Date(startDateTime).getTime() <= now) {
+        continue;
+      }
+
+      const directoryScopeId = item.directoryScopeId || "/";
+
+      yield {
+        id: item.id || "",
+        roleDefinitionId: item.roleDefinitionId || "",
+        roleName: item.roleDefinition?.displayName || "Unknown Role",
+        scope: directoryScopeId,
+        scopeName: directoryScopeName(directoryScopeId),
+        principalId: item.principalId || "",
+        principalType: "",
+        memberType: item.memberType || "Direct",
+        status: "Scheduled",
+        startDateTime,
+        endDateTime: scheduleEndDateTime(item.scheduleInfo),
+        roleAssignmentScheduleId: item.id || undefined,
+        roleSource: "directory",
+      };
+    }
+  }
+}
+
+/**
+ * Submit a directory role assignment schedule request.
+ * Graph uses an "action" field in camelCase where ARM uses "requestType".
+ */
+async function submitDirectoryRoleRequest(
+  action: "selfActivate" | "selfDeactivate" | "selfExtend",
+  directoryScopeId: string,
+  roleDefinitionId: string,
+  userPrincipalId: string,
+  justification?: string,
+  durationHours?: number,
+  ticketInfo?: TicketInfo,
+  startDateTime?: string
+): Promise<any> {
+  const requestBody: any = {
+    action,
+    principalId: userPrincipalId,
+    roleDefinitionId,
+    directoryScopeId: directoryScopeId || "/",
+  };
+
+  if (justification) {
+    requestBody.justification = justification;
+  }
+
+  if (ticketInfo?.ticketNumber || ticketInfo?.ticketSystem) {
+    requestBody.ticketInfo = ticketInfo;
+  }
+
+  if (durationHours !== undefined) {
+    requestBody.scheduleInfo = {
+      startDateTime: startDateTime ?? new Date().toISOString(),
+      expiration: {
+        type: "afterDuration",
+        duration: formatIsoDuration(durationHours),
+      },
+    };
+  }
+
+  console.error(`Submitting ${action} for directory role at scope: ${directoryScopeId || "/"}`);
+
+  return azureRestCall('POST', `${ROLE_MANAGEMENT_URL}/roleAssignmentScheduleRequests`, requestBody);
+}
+
+/**
+ * Activate an eligible directory role for the current user, now or from a future startDateTime
+ */
+export async function activateDirectoryRole(
+  directoryScopeId: string,
+  roleDefinitionId: string,
+  userPrincipalId: string,
+  justification: string,
+  durationHours: number = 8,
+  ticketInfo?: TicketInfo,
+  startDateTime?: string
+): Promise<ActivationAttempt> {
+  try {
+    const result = await submitDirectoryRoleRequest(
+      "selfActivate",
+      directoryScopeId,
+      roleDefinitionId,
+      userPrincipalId,
+      justification,
+      durationHours,
+      ticketInfo,
+      startDateTime
+    );
+
+    const state = activationStateFromStatus(result.status, startDateTime);
+    if (state === "denied" || state === "failed") {
+      return {
+        success: false,
+        message: `Role activation ${result.status}`,
+        state,
+        requestId: result.id,
+        status: result.status,
+      };
+    }
+
+    return {
+      success: true,
+      message: `Role activation ${result.status || "submitted"} successfully`,
+      state,
+      requestId: result.id,
+      status: result.status,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    // Treat "already activated" as a success
+    if (errorMessage.includes("RoleAssignmentExists") ||
+        errorMessage.includes("already exists")) {
+      return {
+        success: true,
+        message: "Role is already activated",
+        state: "activated",
+      };
+    }
+
+    return {
+      success: false,
+      message: `Failed to activate role: ${errorMessage}`,
+    };
+  }
+}
+
+/**
+ * Deactivate an active directory role before it expires
+ */
+export async function deactivateDirectoryRole(
+  directoryScopeId: string,
+  roleDefinitionId: string,
+  userPrincipalId: string
+): Promise<ActivationAttempt> {
+  try {
+    const result = await submitDirectoryRoleRequest(
+      "selfDeactivate",
+      directoryScopeId,
+      roleDefinitionId,
+      userPrincipalId
+    );
+
+    const state = activationStateFromStatus(result.status, undefined, "selfDeactivate");
+    return {
+      success: state !== "denied" && state !== "failed",
+      message: state === "denied" || state === "failed"
+        ? `Role deactivation ${result.status}`
+        : `Role deactivation ${result.status || "submitted"} successfully`,
+      state,
+      requestId: result.id,
+      status: result.status,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    if (errorMessage.includes("ActiveDurationTooShort")) {
+      return {
+        success: false,
+        message: "Role was activated too recently to be deactivated. Wait a few minutes and try again.",
+      };
+    }
+
+    return {
+      success: false,
+      message: `Failed to deactivate role: ${errorMessage}`,
+    };
+  }
+}
+
+/**
+ * Extend an active directory role so it lasts durationHours from now
+ */
+export async function extendDirectoryRole(
+  directoryScopeId: string,
+  roleDefinitionId: string,
+  userPrincipalId: string,
+  justification: string,
+  durationHours: number = 8
+): Promise<ExtensionAttempt> {
+  try {
+    const result = await submitDirectoryRoleRequest(
+      "selfExtend",
+      directoryScopeId,
+      roleDefinitionId,
+      userPrincipalId,
+      justification,
+      durationHours
+    );
+
+    const state = activationStateFromStatus(result.status, undefined, "selfExtend");
+    return {
+      success: state !== "denied" && state !== "failed",
+      message: state === "denied" || state === "failed"
+        ? `Role extension ${result.status}`
+        : `Role extension ${result.status || "submitted"} successfully`,
+      state,
+      requestId: result.id,
+      status: result.status,
+      endDateTime: state === "activated" ? scheduleEndDateTime(result.scheduleInfo) : undefined,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    if (errorMessage.includes("RoleAssignmentRequestPolicyValidationFailed") ||
+        errorMessage.includes("PolicyViolation")) {
+      return {
+        success: false,
+        message: `Extension is not allowed by the role management policy: ${errorMessage}`,
+      };
+    }
+
+    return {
+      success: false,
+      message: `Failed to extend role: ${errorMessage}`,
+    };
+  }
+}
+
+/**
+ * Read the current status of a directory role activation request
+ */
+export async function getDirectoryRoleRequestStatus(requestId: string): Promise<string> {
+  const result = await azureRestCall('GET', `${ROLE_MANAGEMENT_URL}/roleAssignmentScheduleRequests/${requestId}`) as any;
+  return result.status || "";
+}
+
+/**
+ * Yield the current user's directory role requests, following pagination.
+ * Throws on API errors so callers can decide how to combine this with ARM results.
+ */
+export async function* iterateDirectoryRoleRequests(): AsyncGenerator<PimRoleRequest> {
+  const url = `${ROLE_MANAGEMENT_URL}/roleAssignmentScheduleRequests/filterByCurrentUser(on='principal')?$expand=roleDefinition`;
+
+  for await (const page of azureRestPages(url)) {
+    for (const item of page) {
+      const directoryScopeId = item.directoryScopeId || "/";
+      const startDateTime: string | undefined = item.scheduleInfo?.startDateTime;
+      const state = activationStateFromStatus(item.status, startDateTime, item.action);
+
+      yield {
+        requestId: item.id || "",
+        roleSource: "directory",
+        roleDefinitionId: item.roleDefinitionId || "",
+        roleName: item.roleDefinition?.displayName || "Unknown Role",
+        scope: directoryScopeId,
+        scopeName: directoryScopeName(directoryScopeId),
+        requestType: requestTypeFromAction(item.action),
+        status: item.status || "",
+        state,
+        justification: item.justification || undefined,
+        ticketNumber: item.ticketInfo?.ticketNumber || undefined,
+        createdDateTime: item.createdDateTime || undefined,
+        completedDateTime: item.completedDateTime || undefined,
+        startDateTime,
+        endDateTime: scheduleEndDateTime(item.scheduleInfo),
+        approvalId: item.approvalId || undefined,
+        cancellable: isCancellableState(state),
+      };
+    }
+  }
+}
+
+/**
+ * Read who decided a directory role request's approval.
+ * Directory role approvals are only available from the Graph beta API.
+ */
+export async function getDirectoryRoleApprover(approvalId: string): Promise<string | undefined> {
+  const result = await azureRestCall(
+    'GET',
+    `${GRAPH_RESOURCE}/beta/roleManagement/directory/roleAssignmentApprovals/${approvalId}?$expand=steps`
+  );
+  return approverNames(result);
+}
+
+/**
+ * Cancel a pending or scheduled directory role request
+ */
+export async function cancelDirectoryRoleRequest(requestId: string): Promise<void> {
+  await azureRestCall('POST', `${ROLE_MANAGEMENT_URL}/roleAssignmentScheduleRequests/${requestId}/cancel`);
+}
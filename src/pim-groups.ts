@@ -0,0 +1,381 @@
+import { azureRestCall, azureRestPages, GRAPH_RESOURCE } from "./azure-rest.js";
+import type { PimRoleAssignment, ActiveRoleAssignment, PimRoleRequest } from "./pim-cli.js";
+import {
+  activationStateFromStatus,
+  isCancellableState,
+  requestTypeFromAction,
+  scheduleEndDateTime,
+  approverNames,
+  type ActivationAttempt,
+  type ExtensionAttempt,
+  type TicketInfo,
+} from "./activation-state.js";
+import { formatIsoDuration } from "./pim-policy.js";
+
+/**
+ * PIM for Groups backend.
+ * Eligible group memberships and ownerships are managed through Microsoft Graph's
+ * privilegedAccess API. They are surfaced as role assignments with roleSource "group",
+ * roleName "Member" or "Owner", and the group as the scope.
+ */
+
+const GROUP_ACCESS_URL = `${GRAPH_RESOURCE}/v1.0/identityGovernance/privilegedAccess/group`;
+
+function accessDisplayName(accessId: string): string {
+  return accessId === "owner" ? "Owner" : "Member";
+}
+
+/**
+ * Yield eligible group memberships and ownerships for the current user, following pagination.
+ * Throws on API errors so callers can decide how to combine this with other backends.
+ */
+export async function* iterateEligibleGroupAccess(): AsyncGenerator<PimRoleAssignment> {
+  const url = `${GROUP_ACCESS_URL}/eligibilityScheduleInstances/filterByCurrentUser(on='principal')?$expand=group`;
+
+  for await (const page of azureRestPages(url)) {
+    for (const item of page) {
+      const accessId = item.accessId || "member";
+
+      yield {
+        id: item.id || "",
+        roleDefinitionId: accessId,
+        roleName: accessDisplayName(accessId),
+        scope: item.groupId || "",
+        scopeName: item.group?.displayName || item.groupId || "",
+        principalId: item.principalId || "",
+        principalType: "",
+        memberType: item.memberType || "Direct",
+        status: "Eligible",
+        roleEligibilityScheduleId: item.eligibilityScheduleId || undefined,
+        roleSource: "group",
+      };
+    }
+  }
+}
+
+/**
+ * Yield active (PIM-activated) group memberships and ownerships for the current user, following pagination.
+ * Throws on API errors so callers can decide how to combine this with other backends.
+ */
+export async function* iterateActiveGroupAccess(): AsyncGenerator<ActiveRoleAssignment> {
+  const url = `${GROUP_ACCESS_URL}/assignmentScheduleInstances/filterByCurrentUser(on='principal')?$expand=group`;
+
+  for await (const page of azureRestPages(url)) {
+    for (const item of page) {
+      // Only include PIM-activated access, not permanent memberships
+      if (item.assignmentType?.toLowerCase() !== "activated") {
+        continue;
+      }
+
+      const accessId = item.accessId || "member";
+
+      yield {
+        id: item.id || "",
+        roleDefinitionId: accessId,
+        roleName: accessDisplayName(accessId),
+        scope: item.groupId || "",
+        scopeName: item.group?.displayName || item.groupId || "",
+        principalId: item.principalId || "",
+        principalType: "",
+        memberType: item.memberType || "Direct",
+        status: "Active",
+        startDateTime: item.startDateTime,
+        endDateTime: item.endDateTime,
+        roleAssignmentScheduleId: item.assignmentScheduleId || undefined,
+        roleSource: "group",
+      };
+    }
+  }
+}
+
+/**
+ * Yield group membership and ownership activations for the current user that are scheduled
+ * to start in the future.
+ */
+export async function* iterateScheduledGroupAccess(): AsyncGenerator<ActiveRoleAssignment> {
+  const url = `${GROUP_ACCESS_URL}/assignmentSchedules/filterByCurrentUser(on='principal')?$expand=group`;
+  const now = Date.now();
+
+  for await (const page of azureRestPages(url)) {
+    for (const item of page) {
+      const startDateTime: string | undefined = item.scheduleInfo?.startDateTime;
+      if (item.assignmentType?.toLowerCase() !== "activated" || !startDateTime || new Date(startDateTime).getTime() <= now) {
+        continue;
+      }
+
+      const accessId = item.accessId || "member";
+
+      yield {
+        id: item.id || "",
+        roleDefinitionId: accessId,
+        roleName: accessDisplayName(accessId),
+        scope: item.groupId || "",
+        scopeName: item.group?.displayName || item.groupId || "",
+        principalId: item.principalId || "",
+        principalType: "",
+        memberType: item.memberType || "Direct",
+        status: "Scheduled",
+        startDateTime,
+        endDateTime: scheduleEndDateTime(item.scheduleInfo),
+        roleAssignmentScheduleId: item.id || undefined,
+        roleSource: "group",
+      };
+    }
+  }
+}
+
+/**
+ * Submit a group assignment schedule request for membership or ownership
+ */
+async function submitGroupAccessRequest(
+  action: "selfActivate" | "selfDeactivate" | "selfExtend",
+  groupId: string,
+  accessId: string,
+  userPrincipalId: string,
+  justification?: string,
+  durationHours?: number,
+  ticketInfo?: TicketInfo,
+  startDateTime?: string
+): Promise<any> {
+  const requestBody: any = {
+    action,
+    accessId,
+    principalId: userPrincipalId,
+    groupId,
+  };
+
+  if (justification) {
+    requestBody.justification = justification;
+  }
+
+  if (ticketInfo?.ticketNumber || ticketInfo?.ticketSystem) {
+    requestBody.ticketInfo = ticketInfo;
+  }
+
+  if (durationHours !== undefined) {
+    requestBody.scheduleInfo = {
+      startDateTime: startDateTime ?? new Date().toISOString(),
+      expiration: {
+        type: "afterDuration",
+        duration: formatIsoDuration(durationHours),
+      },
+    };
+  }
+
+  console.error(`Submitting ${action} for group ${accessId} access: ${groupId}`);
+
+  return azureRestCall('POST', `${GROUP_ACCESS_URL}/assignmentScheduleRequests`, requestBody);
+}
+
+/**
+ * Activate an eligible group membership or ownership for the current user, now or from a future startDateTime
+ */
+export async function activateGroupAccess(
+  groupId: string,
+  accessId: string,
+  userPrincipalId: string,
+  justification: string,
+  durationHours: number = 8,
+  ticketInfo?: TicketInfo,
+  startDateTime?: string
+): Promise<ActivationAttempt> {
+  try {
+    const result = await submitGroupAccessRequest(
+      "selfActivate",
+      groupId,
+      accessId,
+      userPrincipalId,
+      justification,
+      durationHours,
+      ticketInfo,
+      startDateTime
+    );
+
+    const state = activationStateFromStatus(result.status, startDateTime);
+    if (state === "denied" || state === "failed") {
+      return {
+        success: false,
+        message: `Group ${accessId} activation ${result.status}`,
+        state,
+        requestId: result.id,
+        status: result.status,
+      };
+    }
+
+    return {
+      success: true,
+      message: `Group ${accessId} activation ${result.status || "submitted"} successfully`,
+      state,
+      requestId: result.id,
+      status: result.status,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    // Treat "already activated" as a success
+    if (errorMessage.includes("RoleAssignmentExists") ||
+        errorMessage.includes("already exists")) {
+      return {
+        success: true,
+        message: `Group ${accessId} is already activated`,
+        state: "activated",
+      };
+    }
+
+    return {
+      success: false,
+      message: `Failed to activate group ${accessId}: ${errorMessage}`,
+    };
+  }
+}
+
+/**
+ * Deactivate an active group membership or ownership before it expires
+ */
+export async function deactivateGroupAccess(
+  groupId: string,
+  accessId: string,
+  userPrincipalId: string
+): Promise<ActivationAttempt> {
+  try {
+    const result = await submitGroupAccessRequest(
+      "selfDeactivate",
+      groupId,
+      accessId,
+      userPrincipalId
+    );
+
+    const state = activationStateFromStatus(result.status, undefined, "selfDeactivate");
+    return {
+      success: state !== "denied" && state !== "failed",
+      message: state === "denied" || state === "failed"
+        ? `Group ${accessId} deactivation ${result.status}`
+        : `Group ${accessId} deactivation ${result.status || "submitted"} successfully`,
+      state,
+      requestId: result.id,
+      status: result.status,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    if (errorMessage.includes("ActiveDurationTooShort")) {
+      return {
+        success: false,
+        message: "Group access was activated too recently to be deactivated. Wait a few minutes and try again.",
+      };
+    }
+
+    return {
+      success: false,
+      message: `Failed to deactivate group ${accessId}: ${errorMessage}`,
+    };
+  }
+}
+
+/**
+ * Extend an active group membership or ownership so it lasts durationHours from now
+ */
+export async function extendGroupAccess(
+  groupId: string,
+  accessId: string,
+  userPrincipalId: string,
+  justification: string,
+  durationHours: number = 8
+): Promise<ExtensionAttempt> {
+  try {
+    const result = await submitGroupAccessRequest(
+      "selfExtend",
+      groupId,
+      accessId,
+      userPrincipalId,
+      justification,
+      durationHours
+    );
+
+    const state = activationStateFromStatus(result.status, undefined, "selfExtend");
+    return {
+      success: state !== "denied" && state !== "failed",
+      message: state === "denied" || state === "failed"
+        ? `Group ${accessId} extension ${result.status}`
+        : `Group ${accessId} extension ${result.status || "submitted"} successfully`,
+      state,
+      requestId: result.id,
+      status: result.status,
+      endDateTime: state === "activated" ? scheduleEndDateTime(result.scheduleInfo) : undefined,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    if (errorMessage.includes("RoleAssignmentRequestPolicyValidationFailed") ||
+        errorMessage.includes("PolicyViolation")) {
+      return {
+        success: false,
+        message: `Extension is not allowed by the group's PIM policy: ${errorMessage}`,
+      };
+    }
+
+    return {
+      success: false,
+      message: `Failed to extend group ${accessId}: ${errorMessage}`,
+    };
+  }
+}
+
+/**
+ * Read the current status of a group access activation request
+ */
+export async function getGroupAccessRequestStatus(requestId: string): Promise<string> {
+  const result = await azureRestCall('GET', `${GROUP_ACCESS_URL}/assignmentScheduleRequests/${requestId}`) as any;
+  return result.status || "";
+}
+
+/**
+ * Yield the current user's group membership and ownership requests, following pagination.
+ * Throws on API errors so callers can decide how to combine this with other backends.
+ */
+export async function* iterateGroupAccessRequests(): AsyncGenerator<PimRoleRequest> {
+  const url = `${GROUP_ACCESS_URL}/assignmentScheduleRequests/filterByCurrentUser(on='principal')?$expand=group`;
+
+  for await (const page of azureRestPages(url)) {
+    for (const item of page) {
+      const accessId = item.accessId || "member";
+      const startDateTime: string | undefined = item.scheduleInfo?.startDateTime;
+      const state = activationStateFromStatus(item.status, startDateTime, item.action);
+
+      yield {
+        requestId: item.id || "",
+        roleSource: "group",
+        roleDefinitionId: accessId,
+        roleName: accessDisplayName(accessId),
+        scope: item.groupId || "",
+        scopeName: item.group?.displayName || item.groupId || "",
+        requestType: requestTypeFromAction(item.action),
+        status: item.status || "",
+        state,
+        justification: item.justification || undefined,
+        ticketNumber: item.ticketInfo?.ticketNumber || undefined,
+        createdDateTime: item.createdDateTime || undefined,
+        completedDateTime: item.completedDateTime || undefined,
+        startDateTime,
+        endDateTime: scheduleEndDateTime(item.scheduleInfo),
+        approvalId: item.approvalId || undefined,
+        cancellable: isCancellableState(state),
+      };
+    }
+  }
+}
+
+/**
+ * Read who decided a group access request's approval
+ */
+export async function getGroupAccessApprover(approvalId: string): Promise<string | undefined> {
+  const result = await azureRestCall('GET', `${GROUP_ACCESS_URL}/assignmentApprovals/${approvalId}?$expand=stages`);
+  return approverNames(result);
+}
+
+/**
+ * Cancel a pending or scheduled group access request
+ */
+export async function cancelGroupAccessRequest(requestId: string): Promise<void> {
+  await azureRestCall('POST', `${GROUP_ACCESS_URL}/assignmentScheduleRequests/${requestId}/cancel`);
+}
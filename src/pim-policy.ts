@@ -0,0 +1,116 @@
+import { azureRestCall, GRAPH_RESOURCE } from "./azure-rest.js";
+import type { RoleSource } from "./pim-cli.js";
+
+/**
+ * What a role's management policy requires of an end-user activation
+ */
+export interface ActivationPolicy {
+  /** Longest activation the policy allows, in hours */
+  maximumDurationHours?: number;
+  requiresJustification: boolean;
+  requiresTicket: boolean;
+  requiresMfa: boolean;
+  requiresApproval: boolean;
+}
+
+/**
+ * Parse an ISO 8601 duration such as "PT8H", "PT30M" or "P1D" into hours.
+ */
+export function parseIsoDurationHours(duration: string | undefined): number | undefined {
+  const match = duration?.match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!match) {
+    return undefined;
+  }
+  const [, days, hours, minutes, seconds] = match.map((part) => Number(part ?? 0));
+  return days * 24 + hours + minutes / 60 + seconds / 3600;
+}
+
+/**
+ * Format hours as an ISO 8601 duration, using minutes when the hours aren't whole
+ * (e.g., 8 -> "PT8H", 0.5 -> "PT30M").
+ */
+export function formatIsoDuration(hours: number): string {
+  return Number.isInteger(hours) ? `PT${hours}H` : `PT${Math.round(hours * 60)}M`;
+}
+
+/**
+ * Read the end-user activation rules out of a policy's rules.
+ * ARM (effectiveRules) and Graph (rules) use the same rule IDs and field names.
+ */
+function activationPolicyFromRules(rules: any[]): ActivationPolicy {
+  const rule = (id: string) => rules.find((r) => r.id === id);
+
+  const expiration = rule("Expiration_EndUser_Assignment");
+  const enabledRules: string[] = rule("Enablement_EndUser_Assignment")?.enabledRules ?? [];
+  const approval = rule("Approval_EndUser_Assignment");
+
+  return {
+    maximumDurationHours: parseIsoDurationHours(expiration?.maximumDuration),
+    requiresJustification: enabledRules.includes("Justification"),
+    requiresTicket: enabledRules.includes("Ticketing"),
+    requiresMfa: enabledRules.includes("MultiFactorAuthentication"),
+    requiresApproval: approval?.setting?.isApprovalRequired === true,
+  };
+}
+
+/**
+ * Get the activation policy for a role at a scope.
+ * Azure resource roles read ARM roleManagementPolicyAssignments; directory roles and
+ * group access read the Graph equivalent.
+ */
+export async function getActivationPolicyCli(role: {
+  roleDefinitionId: string;
+  scope: string;
+  roleSource: RoleSource;
+}): Promise<ActivationPolicy> {
+  if (role.roleSource === "azureResource") {
+    const apiVersion = "2020-10-01";
+    const filter = encodeURIComponent(`roleDefinitionId eq '${role.roleDefinitionId}'`);
+    const url = `https://management.azure.com${role.scope}/providers/Microsoft.Authorization/roleManagementPolicyAssignments?api-version=${apiVersion}&$filter=${filter}`;
+
+    const data = await azureRestCall('GET', url) as any;
+    const assignment = data.value?.[0];
+    if (!assignment) {
+      throw new Error(`No role management policy found for ${role.roleDefinitionId} at ${role.scope}`);
+    }
+    return activationPolicyFromRules(assignment.properties?.effectiveRules ?? []);
+  }
+
+  const scopeType = role.roleSource === "group" ? "Group" : "DirectoryRole";
+  const scopeId = role.roleSource === "group" ? role.scope : role.scope || "/";
+  const filter = encodeURIComponent(
+    `scopeId eq '${scopeId}' and scopeType eq '${scopeType}' and roleDefinitionId eq '${role.roleDefinitionId}'`
+  );
+  const url = `${GRAPH_RESOURCE}/v1.0/policies/roleManagementPolicyAssignments?$filter=${filter}&$expand=policy($expand=rules)`;
+
+  const data = await azureRestCall('GET', url) as any;
+  const assignment = data.value?.[0];
+  if (!assignment) {
+    throw new Error(`No role management policy found for ${role.roleDefinitionId} at ${scopeId}`);
+  }
+  return activationPolicyFromRules(assignment.policy?.rules ?? []);
+}
+
+/**
+ * Describe a policy's requirements in a short human-readable form,
+ * e.g. "max 8h, ticket, approval".
+ */
+export function describeActivationPolicy(policy: ActivationPolicy): string {
+  const parts: string[] = [];
+  if (policy.maximumDurationHours !== undefined) {
+    parts.push(`max ${policy.maximumDurationHours}h`);
+  }
+  if (policy.requiresJustification) {
+    parts.push("justification");
+  }
+  if (policy.requiresTicket) {
+    parts.push("ticket");
+  }
+  if (policy.requiresMfa) {
+    parts.push("MFA");
+  }
+  if (policy.requiresApproval) {
+    parts.push("approval");
+  }
+  return parts.join(", ");
+}
@@ -0,0 +1,186 @@
+import type { RoleSource } from "./pim-cli.js";
+
+/**
+ * Resolves requested roles ({ name, scope }) against eligible or active roles.
+ * A request carrying an eligibility instance ID matches only that instance. Otherwise
+ * candidates are ranked by how precisely they match, and only the best tier counts:
+ * - id: the role definition ID and the full scope ID
+ * - exactName: the role's display name and the scope's ID or display name, ignoring case
+ * - fuzzy: either name contains the other
+ * An empty scope matches any scope without lowering the tier. Within a tier, a closer name match
+ * wins, so "Reader" prefers Reader over Storage Blob Data Reader. Several distinct roles that
+ * match equally well are reported as ambiguous rather than guessed.
+ */
+
+export type RoleMatchKind = "id" | "exactName" | "fuzzy";
+
+/**
+ * A role as requested by the caller
+ */
+export interface RoleRequest {
+  /** Role display name or role definition ID */
+  name: string;
+  /** Scope display name or scope ID; empty matches any scope */
+  scope: string;
+  roleSource?: RoleSource;
+  /** Eligibility instance ID as returned by listEligibleRoles(); overrides name and scope */
+  id?: string;
+}
+
+/**
+ * The fields of an eligible or active role that resolution looks at
+ */
+export interface RoleCandidate {
+  id: string;
+  roleDefinitionId: string;
+  roleName: string;
+  scope: string;
+  scopeName: string;
+  memberType: string;
+  roleSource: RoleSource;
+}
+
+export type RoleResolution<T extends RoleCandidate = RoleCandidate> =
+  | { request: RoleRequest; status: "resolved"; role: T; matchedBy: RoleMatchKind }
+  | { request: RoleRequest; status: "ambiguous"; candidates: T[]; matchedBy: RoleMatchKind }
+  | { request: RoleRequest; status: "notFound" };
+
+const MATCH_RANK: Record<RoleMatchKind, number> = { id: 0, exactName: 1, fuzzy: 2 };
+
+function normalizeId(id: string): string {
+  const trimmed = id.trim().toLowerCase();
+  return trimmed.length > 1 ? trimmed.replace(/\/+$/, "") : trimmed;
+}
+
+function nameMatch(candidate: RoleCandidate, name: string): RoleMatchKind | undefined {
+  const requested = name.trim().toLowerCase();
+  const definitionId = normalizeId(candidate.roleDefinitionId);
+  // A role definition ID may be given in full or as its trailing GUID
+  if (requested && (requested === definitionId || requested === definitionId.split("/").pop())) {
+    return "id";
+  }
+
+  const roleName = candidate.roleName.toLowerCase();
+  if (requested === roleName) {
+    return "exactName";
+  }
+  if (requested && (roleName.includes(requested) || requested.includes(roleName))) {
+    return "fuzzy";
+  }
+  return undefined;
+}
+
+// "any" for an empty scope, which leaves the tier to the name match
+function scopeMatch(candidate: RoleCandidate, scope: string): RoleMatchKind | "any" | undefined {
+  const requested = scope.trim().toLowerCase();
+  if (!requested) {
+    return "any";
+  }
+
+  if (normalizeId(requested) === normalizeId(candidate.scope)) {
+    return "id";
+  }
+
+  const scopeName = candidate.scopeName.toLowerCase();
+  if (requested === scopeName) {
+    return "exactName";
+  }
+  if (candidate.scope.toLowerCase().includes(requested) ||
+      scopeName.includes(requested) ||
+      requested.includes(scopeName)) {
+    return "fuzzy";
+  }
+  return undefined;
+}
+
+/**
+ * How well a candidate matches a request: the weaker of its name and scope matches,
+ * with a score (lower is better) that breaks ties within a tier by the name match
+ */
+function matchScore(
+  candidate: RoleCandidate,
+  request: RoleRequest
+): { kind: RoleMatchKind; score: number } | undefined {
+  if (request.roleSource && request.roleSource !== candidate.roleSource) {
+    return undefined;
+  }
+
+  if (request.id) {
+    return normalizeId(request.id) === normalizeId(candidate.id) ? { kind: "id", score: 0 } : undefined;
+  }
+
+  const byName = nameMatch(candidate, request.name);
+  const byScope = byName && scopeMatch(candidate, request.scope);
+  if (!byName || !byScope) {
+    return undefined;
+  }
+  const kind = byScope === "any" || MATCH_RANK[byName] >= MATCH_RANK[byScope] ? byName : byScope;
+  return { kind, score: MATCH_RANK[kind] * 3 + MATCH_RANK[byName] };
+}
+
+/**
+ * Resolve one requested role against the candidates.
+ * The same role eligible both directly and through a group is one role, not an ambiguity;
+ * the direct assignment is preferred.
+ */
+export function resolveRole<T extends RoleCandidate>(request: RoleRequest, candidates: T[]): RoleResolution<T> {
+  let best: T[] = [];
+  let bestMatch: { kind: RoleMatchKind; score: number } | undefined;
+
+  for (const candidate of candidates) {
+    const match = matchScore(candidate, request);
+    if (!match) {
+      continue;
+    }
+    if (!bestMatch || match.score < bestMatch.score) {
+      best = [candidate];
+      bestMatch = match;
+    } else if (match.score === bestMatch.score) {
+      best.push(candidate);
+    }
+  }
+
+  if (!bestMatch) {
+    return { request, status: "notFound" };
+  }
+
+  const distinct = new Map<string, T>();
+  for (const candidate of best) {
+    const key = `${candidate.roleSource}|${normalizeId(candidate.roleDefinitionId)}|${normalizeId(candidate.scope)}`;
+    const existing = distinct.get(key);
+    if (!existing || (existing.memberType !== "Direct" && candidate.memberType === "Direct")) {
+      distinct.set(key, candidate);
+    }
+  }
+
+  const roles = [...distinct.values()];
+  if (roles.length === 1) {
+    return { request, status: "resolved", role: roles[0], matchedBy: bestMatch.kind };
+  }
+  return { request, status: "ambiguous", candidates: roles, matchedBy: bestMatch.kind };
+}
+
+/**
+ * Explain why a request did not resolve to a single role
+ *
+ * @param candidates - What the request was resolved against, for the not-found message
+ */
+export function describeResolutionFailure(
+  resolution: RoleResolution,
+  candidates: "eligible" | "active" = "eligible"
+): string {
+  const { name, scope, id } = resolution.request;
+  if (resolution.status === "notFound") {
+    return id
+      ? `Could not find ${candidates} role with ID "${id}"`
+      : `Could not find ${candidates} role matching "${name}" at scope "${scope}"`;
+  }
+  if (resolution.status === "ambiguous") {
+    const candidates = resolution.candidates
+      .map((c) => `${c.roleName} (${c.scopeName}, ${c.scope})`)
+      .join("; ");
+    return `"${name}" at scope "${scope}" is ambiguous; it matches ${resolution.candidates.length} roles: ${candidates}. ` +
+      "Use the exact role name and scope, or the role definition ID and scope ID.";
+  }
+  return "";
+}
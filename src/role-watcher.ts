@@ -0,0 +1,255 @@
+import {
+  listActiveRolesCli,
+  resolveRolesCli,
+  extendPimRolesCli,
+  activatePimRolesCli,
+  type ActiveRoleAssignment,
+  type PimRoleAssignment,
+  type RoleActivationRequest,
+} from "./pim-cli.js";
+import { describeResolutionFailure } from "./role-resolver.js";
+
+/**
+ * Watch mode: keeps roles elevated through a long session.
+ * Active roles are polled, and a watched role close to its endDateTime is extended.
+ * An activation that can't be extended (e.g. its policy doesn't allow it) is left to lapse, and
+ * the role is re-activated on the next poll. An extension is requested once per end time, so a
+ * pending or failed one isn't repeated every poll. A re-activation is submitted once: the role is only
+ * re-activated again after it has been seen active again, and a failed attempt is retried with
+ * exponential backoff. Every attempt counts towards a per-role daily maximum.
+ */
+
+export interface WatchOptions {
+  /** How often to check the active roles (default: 60 seconds) */
+  pollIntervalSeconds?: number;
+  /** Renew a role once it has less than this long left (default: 15 minutes) */
+  renewBeforeMinutes?: number;
+  /** How long each renewal lasts (default: the role's durationHours, else 8 hours) */
+  durationHours?: number;
+  /** Renewals allowed per role per calendar day (default: 3) */
+  maxRenewalsPerDay?: number;
+  /** Change ticket number sent when a role is re-activated */
+  ticketNumber?: string;
+  /** The system the ticket lives in (e.g., "ServiceNow") */
+  ticketSystem?: string;
+  /** Stops watching when aborted */
+  signal?: AbortSignal;
+  /** Called after every renewal attempt */
+  onRenewal?: (renewal: RoleRenewal) => void;
+}
+
+/**
+ * One attempt to keep a watched role elevated
+ */
+export interface RoleRenewal {
+  role: string;
+  /** "extend" for a role close to expiry, "reactivate" for one that lapsed */
+  action: "extend" | "reactivate";
+  success: boolean;
+  /** The new end of the activation, when known */
+  endDateTime?: string;
+  message: string;
+  /** When the renewal was attempted (ISO 8601) */
+  timestamp: string;
+}
+
+interface WatchedRole {
+  label: string;
+  eligible: PimRoleAssignment;
+  durationHours: number;
+  /** Seen active since the last re-activation, so a later absence means it lapsed */
+  wasActive: boolean;
+  /** Re-activations that failed in a row, and when the next may be attempted */
+  reactivateFailures: number;
+  reactivateAfter?: number;
+  /**
+   * End time of an activation that an extension was already requested for, so it isn't requested
+   * again while the extension waits on approval or after it failed
+   */
+  extendedFor?: string;
+  renewalsToday: { day: string; count: number };
+  /** Day the daily maximum was last reported, so it's logged once a day */
+  limitReportedOn?: string;
+}
+
+function assignmentKey(role: { roleSource: string; roleDefinitionId: string; scope: string }): string {
+  return `${role.roleSource}|${role.roleDefinitionId.toLowerCase()}|${role.scope.toLowerCase().replace(/\/+$/, "")}`;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+// Longest wait between attempts to re-activate a lapsed role
+const MAX_REACTIVATE_BACKOFF_MS = 60 * 60 * 1000;
+
+/**
+ * Take one renewal from today's allowance, or report that it's used up
+ */
+export function takeRenewal(
+  watched: Pick<WatchedRole, "renewalsToday">,
+  maxRenewalsPerDay: number,
+  now: Date = new Date()
+): boolean {
+  const today = now.toISOString().slice(0, 10);
+  if (watched.renewalsToday.day !== today) {
+    watched.renewalsToday = { day: today, count: 0 };
+  }
+  if (watched.renewalsToday.count >= maxRenewalsPerDay) {
+    return false;
+  }
+  watched.renewalsToday.count++;
+  return true;
+}
+
+async function renew(
+  watched: WatchedRole,
+  active: ActiveRoleAssignment | undefined,
+  justification: string,
+  options: WatchOptions
+): Promise<RoleRenewal> {
+  const timestamp = new Date().toISOString();
+
+  if (active) {
+    const result = await extendPimRolesCli([active], justification, watched.durationHours);
+    const extended = result.extendedRoles[0];
+    return {
+      role: watched.label,
+      action: "extend",
+      success: result.success,
+      endDateTime: extended?.endDateTime,
+      message: extended
+        ? extended.endDateTime ? `Extended until ${extended.endDateTime}` : "Extended"
+        : result.failedRoles[0]?.error ?? result.message,
+      timestamp,
+    };
+  }
+
+  const request: RoleActivationRequest = {
+    name: watched.eligible.roleName,
+    scope: watched.eligible.scope,
+    roleSource: watched.eligible.roleSource,
+    id: watched.eligible.id,
+  };
+  const result = await activatePimRolesCli([request], justification, watched.durationHours, {
+    ticketNumber: options.ticketNumber,
+    ticketSystem: options.ticketSystem,
+  });
+  return {
+    role: watched.label,
+    action: "reactivate",
+    success: result.success,
+    endDateTime: result.activatedRoles.length > 0
+      ? new Date(Date.now() + watched.durationHours * 60 * 60 * 1000).toISOString()
+      : undefined,
+    message: result.failedRoles[0]?.error ?? result.message,
+    timestamp,
+  };
+}
+
+/**
+ * Watch roles until options.signal is aborted, renewing them as they near expiry.
+ * The roles are resolved against the eligible roles once, up front.
+ *
+ * @returns Every renewal attempted while watching
+ * @throws Error if none of the roles can be resolved
+ */
+export async function watchRolesCli(
+  roles: RoleActivationRequest[],
+  justification: string,
+  options: WatchOptions = {}
+): Promise<RoleRenewal[]> {
+  const pollIntervalMs = (options.pollIntervalSeconds ?? 60) * 1000;
+  const renewBeforeMs = (options.renewBeforeMinutes ?? 15) * 60 * 1000;
+  const maxRenewalsPerDay = options.maxRenewalsPerDay ?? 3;
+
+  const resolved = await resolveRolesCli(roles);
+  const watched = new Map<string, WatchedRole>();
+  resolved.resolutions.forEach((resolution, i) => {
+    if (resolution.status !== "resolved") {
+      console.error(`Not watching: ${describeResolutionFailure(resolution)}`);
+      return;
+    }
+    const eligible = resolution.role;
+    watched.set(assignmentKey(eligible), {
+      label: `${eligible.roleName} (${eligible.scopeName})`,
+      eligible,
+      durationHours: roles[i].durationHours ?? options.durationHours ?? 8,
+      wasActive: false,
+      reactivateFailures: 0,
+      renewalsToday: { day: "", count: 0 },
+    });
+  });
+
+  if (watched.size === 0) {
+    throw new Error(`None of the roles to watch could be resolved. ${resolved.message}`);
+  }
+
+  console.error(`Watching ${watched.size} role(s), renewing ${renewBeforeMs / 60000} minute(s) before expiry`);
+  const renewals: RoleRenewal[] = [];
+
+  while (!options.signal?.aborted) {
+    const activeResult = await listActiveRolesCli();
+    if (!activeResult.success) {
+      console.error(`Could not check active roles, trying again next poll: ${activeResult.message}`);
+    } else {
+      const active = new Map(activeResult.roles.map((role) => [assignmentKey(role), role]));
+
+      for (const [key, role] of watched) {
+        const assignment = active.get(key);
+        const expiring = assignment?.endDateTime !== undefined &&
+          assignment.endDateTime !== role.extendedFor &&
+          new Date(assignment.endDateTime).getTime() - Date.now() <= renewBeforeMs;
+        const lapsed = !assignment && role.wasActive &&
+          (role.reactivateAfter === undefined || Date.now() >= role.reactivateAfter);
+        role.wasActive = role.wasActive || assignment !== undefined;
+
+        if (!expiring && !lapsed) {
+          continue;
+        }
+        if (!takeRenewal(role, maxRenewalsPerDay)) {
+          if (role.limitReportedOn !== role.renewalsToday.day) {
+            role.limitReportedOn = role.renewalsToday.day;
+            console.error(`Not renewing ${role.label}: reached the daily maximum of ${maxRenewalsPerDay} renewal(s)`);
+          }
+          continue;
+        }
+
+        const renewal = await renew(role, assignment, justification, options);
+        renewals.push(renewal);
+        if (renewal.action === "extend") {
+          role.extendedFor = assignment?.endDateTime;
+        }
+        if (renewal.action === "reactivate" && renewal.success) {
+          // The request may still be pending approval or provisioning; wait to see the role active again
+          role.wasActive = false;
+          role.reactivateFailures = 0;
+          role.reactivateAfter = undefined;
+        } else if (renewal.action === "reactivate") {
+          role.reactivateFailures++;
+          role.reactivateAfter = Date.now() +
+            Math.min(pollIntervalMs * 2 ** role.reactivateFailures, MAX_REACTIVATE_BACKOFF_MS);
+        }
+        console.error(
+          `Renewal (${renewal.action}) of ${renewal.role} ${renewal.success ? "succeeded" : "failed"}: ${renewal.message}`
+        );
+        options.onRenewal?.(renewal);
+      }
+    }
+
+    await sleep(pollIntervalMs, options.signal);
+  }
+
+  console.error(`Stopped watching after ${renewals.length} renewal(s)`);
+  return renewals;
+}
@@ -4,16 +4,65 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   Tool,
+  type CallToolResult,
 } from "@modelcontextprotocol/sdk/types.js";
 import { 
   listEligibleRoles, 
   listActiveRoles, 
   activateRoles,
+  checkActivationStatus,
+  listRoleRequests,
+  cancelRequest,
+  deactivateRoles,
+  deactivateAllRoles,
+  extendRoles,
   loadQuickRolesConfig,
-  saveQuickRolesConfig,
+  loadPimOptions,
+  loadQuickRoleProfiles,
+  saveQuickRoleProfile,
+  renameQuickRoleProfile,
+  deleteQuickRoleProfile,
+  setDefaultQuickRoleProfile,
+  getEffectiveConfig,
+  queryAuditLog,
+  describeActivationPolicy,
+  DEFAULT_PROFILE_NAME,
+  type QuickRoleProfiles,
+  type PimOptions,
   type RoleConfig,
+  type RoleSource,
+  type ActivationRequest,
+  type CliActivationResult,
+  type CliDeactivationResult,
+  type CliExtensionResult,
+  type PimRoleAssignment,
+  type ActiveRoleAssignment,
+  type AuditEntry,
+  type PimRoleRequest,
 } from "./index.js";
+import { resolveActiveRoles, extensionMessage } from "./pim-cli.js";
+import { startExpiryMonitor, type ExpiryNotificationSettings } from "./expiry-monitor.js";
+import {
+  activationResultSchema,
+  listRolesResultSchema,
+  listActiveRolesResultSchema,
+  activationStatusSchema,
+  deactivationResultSchema,
+  extensionResultSchema,
+  quickRolesListSchema,
+  quickRoleProfilesSchema,
+  savedProfileSchema,
+  profileUpdateSchema,
+  effectiveConfigSchema,
+  auditLogQueryResultSchema,
+  roleRequestsSchema,
+  cancelRequestResultSchema,
+} from "./output-schemas.js";
 
 // Define the tools available in this MCP server
 const tools: Tool[] = [
@@ -21,10 +70,15 @@ const tools: Tool[] = [
   {
     name: "activate_quick_roles",
     description:
-      "Activates your saved quick roles (favorites) for fast elevation. Configure your quick roles first using list_quick_roles and save_quick_roles. Reads the latest config each time, so no server reload needed after changes.",
+      "Activates your saved quick roles (favorites) for fast elevation. Activates the default profile unless another profile is named. Configure your quick roles first using list_quick_roles and save_quick_roles. Reads the latest config each time, so no server reload needed after changes.",
     inputSchema: {
       type: "object" as const,
       properties: {
+        profile: {
+          type: "string",
+          description:
+            "Name of the quick role profile to activate (e.g., 'prod-incident'). Default is your default profile.",
+        },
         justification: {
           type: "string",
           description:
@@ -33,47 +87,118 @@ const tools: Tool[] = [
         duration: {
           type: "number",
           description:
-            "Duration in hours for the role activation. Default is 8 hours.",
-          default: 8,
+            "Duration in hours for the role activation. Default is the profile's default duration, or 8 hours.",
+        },
+        waitForProvisioning: {
+          type: "boolean",
+          description:
+            "Wait (up to provisioningTimeoutSeconds) for each request to be provisioned, denied or time out before returning. Default is false, which returns as soon as requests are submitted.",
+          default: false,
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "Only plan the activation: resolve each role, check its policy and whether it's already active, and return what would be requested without submitting anything. Show the plan to the user before activating sensitive roles.",
+          default: false,
+        },
+        provisioningTimeoutSeconds: {
+          type: "number",
+          description:
+            "How long to wait for provisioning when waitForProvisioning is set. Default is 120 seconds.",
+          default: 120,
+        },
+        startDateTime: {
+          type: "string",
+          description:
+            "Optional ISO 8601 time to start the activation (e.g., '2025-06-01T22:00:00Z' for a maintenance window). Default is now.",
+        },
+        endDateTime: {
+          type: "string",
+          description:
+            "Optional ISO 8601 time to end the activation. Overrides duration.",
+        },
+        ticketNumber: {
+          type: "string",
+          description:
+            "Change ticket number to send with the request. Required for roles whose policy requires a ticket.",
+        },
+        ticketSystem: {
+          type: "string",
+          description:
+            "The system the ticket lives in (e.g., 'ServiceNow'). Defaults to the defaultTicketSystem in your quick roles config.",
         },
       },
       required: [],
     },
+    outputSchema: activationResultSchema,
   },
   {
     name: "list_eligible_roles",
     description:
-      "Lists all eligible PIM (Privileged Identity Management) roles that can be activated in Azure. Returns role names, scopes, and whether they are assigned directly or through a group.",
+      "Lists all eligible PIM (Privileged Identity Management) roles that can be activated in Azure, including Entra ID directory roles and PIM for Groups memberships/ownerships. Returns role names, scopes, whether they are assigned directly or through a group, and a roleSource of 'azureResource', 'directory' or 'group'. Group access is listed with role name 'Member' or 'Owner' and the group as its scope. Each role includes its activation policy: maximum duration and whether justification, a ticket, MFA or approval is required.",
     inputSchema: {
       type: "object",
       properties: {},
       required: [],
     },
+    outputSchema: listRolesResultSchema,
   },
   {
     name: "list_active_roles",
     description:
-      "Lists all currently active (elevated) PIM role assignments. Shows which roles you have activated, along with their start and end times.",
+      "Lists all currently active (elevated) PIM role assignments. Shows which roles you have activated, along with their start and end times, and any activations scheduled to start later.",
     inputSchema: {
       type: "object",
       properties: {},
       required: [],
     },
+    outputSchema: listActiveRolesResultSchema,
   },
   {
     name: "activate_pim_roles",
     description:
-      "Activates specified PIM (Privileged Identity Management) roles in Azure. Provide role names and scopes to match against your eligible roles.",
+      "Activates specified PIM (Privileged Identity Management) roles in Azure. Provide role names with a scope name or full scope ID, or the id of an eligible role from list_eligible_roles, to pick exactly which eligible role to activate. A role that matches several eligible roles fails with the list of candidates instead of activating one of them.",
     inputSchema: {
       type: "object",
       properties: {
         roles: {
           type: "array",
           items: {
-            type: "string",
+            anyOf: [
+              {
+                type: "string",
+                description: "A role name (e.g., 'Contributor'), matched at any scope.",
+              },
+              {
+                type: "object",
+                properties: {
+                  name: {
+                    type: "string",
+                    description: "The role name (e.g., 'Contributor'), or a role definition ID.",
+                  },
+                  scope: {
+                    type: "string",
+                    description: "The scope name (e.g., 'staging-subscription') or full scope ID (e.g., '/subscriptions/<id>'). Optional if the role name is unique.",
+                  },
+                  roleSource: {
+                    type: "string",
+                    enum: ["azureResource", "directory", "group"],
+                    description: "Optional. Restrict to Azure resource roles, Entra ID directory roles, or PIM for Groups access.",
+                  },
+                  id: {
+                    type: "string",
+                    description: "The id of the eligible role as returned by list_eligible_roles. When set, name and scope are not needed.",
+                  },
+                  duration: {
+                    type: "number",
+                    description: "Duration in hours for this role, overriding the top-level duration.",
+                  },
+                },
+              },
+            ],
           },
           description:
-            "Array of role names to activate. These should match the role names shown in the Azure PIM portal.",
+            "Array of roles to activate: role objects with name and scope (or the eligible role id), or plain role names as shown in the Azure PIM portal.",
         },
         justification: {
           type: "string",
@@ -86,27 +211,229 @@ const tools: Tool[] = [
             "Duration in hours for the role activation. Default is 8 hours.",
           default: 8,
         },
+        waitForProvisioning: {
+          type: "boolean",
+          description:
+            "Wait (up to provisioningTimeoutSeconds) for each request to be provisioned, denied or time out before returning. Default is false, which returns as soon as requests are submitted.",
+          default: false,
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "Only plan the activation: resolve each role, check its policy and whether it's already active, and return what would be requested without submitting anything. Show the plan to the user before activating sensitive roles.",
+          default: false,
+        },
+        provisioningTimeoutSeconds: {
+          type: "number",
+          description:
+            "How long to wait for provisioning when waitForProvisioning is set. Default is 120 seconds.",
+          default: 120,
+        },
+        startDateTime: {
+          type: "string",
+          description:
+            "Optional ISO 8601 time to start the activation (e.g., '2025-06-01T22:00:00Z' for a maintenance window). Default is now.",
+        },
+        endDateTime: {
+          type: "string",
+          description:
+            "Optional ISO 8601 time to end the activation. Overrides duration.",
+        },
+        ticketNumber: {
+          type: "string",
+          description:
+            "Change ticket number to send with the request. Required for roles whose policy requires a ticket.",
+        },
+        ticketSystem: {
+          type: "string",
+          description:
+            "The system the ticket lives in (e.g., 'ServiceNow').",
+        },
       },
       required: ["roles", "justification"],
     },
+    outputSchema: activationResultSchema,
+  },
+  {
+    name: "check_activation_status",
+    description:
+      "Checks the current state of activation requests submitted in this session, such as roles that were pending approval, not yet provisioned or scheduled to start later. Reports each as activated, pendingApproval, submitted, scheduled, denied or failed.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        requestIds: {
+          type: "array",
+          items: {
+            type: "string",
+          },
+          description:
+            "Optional. Request IDs from a previous activation result to check. Defaults to every request submitted in this session that was still pending.",
+        },
+      },
+      required: [],
+    },
+    outputSchema: activationStatusSchema,
+  },
+  {
+    name: "list_role_requests",
+    description:
+      "Lists your PIM requests (activations, deactivations, extensions) from Azure, newest first, with their status, approver and timestamps. Unlike check_activation_status, this includes requests made outside this session, e.g. in the Azure portal.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        pendingOnly: {
+          type: "boolean",
+          description: "Only show requests that are still pending approval, not yet provisioned or scheduled, i.e. that can be cancelled",
+        },
+        limit: {
+          type: "number",
+          description: "Show at most this many requests (default: 20)",
+        },
+      },
+      required: [],
+    },
+    outputSchema: roleRequestsSchema,
+  },
+  {
+    name: "cancel_pending_request",
+    description:
+      "Cancels one of your PIM requests that is still pending approval, not yet provisioned or scheduled to start later. Use list_role_requests (with pendingOnly) to find the request ID.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        requestId: {
+          type: "string",
+          description: "The requestId of the request to cancel, from list_role_requests or an activation result",
+        },
+      },
+      required: ["requestId"],
+    },
+    outputSchema: cancelRequestResultSchema,
+  },
+  {
+    name: "deactivate_roles",
+    description:
+      "Deactivates active PIM role elevations before they expire. Provide role names and scopes as shown by list_active_roles, or set all to true to drop every active elevation.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        roles: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                description: "The role name (e.g., 'Contributor').",
+              },
+              scope: {
+                type: "string",
+                description: "The scope name as shown by list_active_roles. Optional if the role name is unique.",
+              },
+              roleSource: {
+                type: "string",
+                enum: ["azureResource", "directory", "group"],
+                description: "Optional. Restrict to Azure resource roles, Entra ID directory roles, or PIM for Groups access.",
+              },
+            },
+            required: ["name"],
+          },
+          description:
+            "Array of active roles to deactivate.",
+        },
+        all: {
+          type: "boolean",
+          description:
+            "Deactivate all currently active PIM roles. Ignores the roles argument.",
+          default: false,
+        },
+      },
+      required: [],
+    },
+    outputSchema: deactivationResultSchema,
+  },
+  {
+    name: "extend_active_roles",
+    description:
+      "Extends active PIM role elevations so they last a new duration from now, before they expire. Provide role names and scopes as shown by list_active_roles, or set all to true. Reports the new end time, or the policy error if the role does not allow extension.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        roles: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                description: "The role name (e.g., 'Contributor').",
+              },
+              scope: {
+                type: "string",
+                description: "The scope name as shown by list_active_roles. Optional if the role name is unique.",
+              },
+              roleSource: {
+                type: "string",
+                enum: ["azureResource", "directory", "group"],
+                description: "Optional. Restrict to Azure resource roles, Entra ID directory roles, or PIM for Groups access.",
+              },
+            },
+            required: ["name"],
+          },
+          description:
+            "Array of active roles to extend.",
+        },
+        all: {
+          type: "boolean",
+          description:
+            "Extend all currently active PIM roles. Ignores the roles argument.",
+          default: false,
+        },
+        justification: {
+          type: "string",
+          description:
+            "The business justification for extending these roles.",
+        },
+        duration: {
+          type: "number",
+          description:
+            "New duration in hours, counted from now. Default is 8 hours.",
+          default: 8,
+        },
+      },
+      required: ["justification"],
+    },
+    outputSchema: extensionResultSchema,
   },
   {
     name: "list_quick_roles",
     description:
-      "Lists all eligible PIM roles with indices and shows your currently saved quick roles. Use this to see available roles, then call save_quick_roles with your selected indices to update your favorites.",
+      "Lists all eligible PIM roles with indices and shows your saved quick role profiles. Use this to see available roles, then call save_quick_roles with your selected indices (and optionally a profile name) to update your favorites.",
     inputSchema: {
       type: "object",
       properties: {},
       required: [],
     },
+    outputSchema: quickRolesListSchema,
   },
   {
     name: "save_quick_roles",
     description:
-      "Saves your selected roles as quick roles for fast activation. Use the indices from list_quick_roles to specify which roles to save.",
+      "Saves your selected roles as a quick role profile for fast activation. Use the indices from list_quick_roles to specify which roles to save. Saving to an existing profile replaces its roles.",
     inputSchema: {
       type: "object",
       properties: {
+        profile: {
+          type: "string",
+          description:
+            "Name of the profile to save (e.g., 'daily-dev', 'prod-incident'). Default is your default profile.",
+        },
+        makeDefault: {
+          type: "boolean",
+          description:
+            "Make this the profile activate_quick_roles uses when none is named. The first profile saved is always the default.",
+          default: false,
+        },
         indices: {
           type: "array",
           items: {
@@ -125,12 +452,295 @@ const tools: Tool[] = [
           description:
             "Optional default justification to use when activating quick roles (e.g., 'Development work'). If set, you won't need to provide a justification each time.",
         },
+        defaultDuration: {
+          type: "number",
+          description:
+            "Optional default duration in hours for this profile's activations.",
+        },
+        defaultTicketSystem: {
+          type: "string",
+          description:
+            "Optional ticket system to send with a ticket number when activating quick roles (e.g., 'ServiceNow').",
+        },
       },
       required: ["indices"],
     },
+    outputSchema: savedProfileSchema,
+  },
+  {
+    name: "list_quick_role_profiles",
+    description:
+      "Lists your saved quick role profiles, their roles and defaults, and which profile is the default.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+      required: [],
+    },
+    outputSchema: quickRoleProfilesSchema,
+  },
+  {
+    name: "rename_quick_role_profile",
+    description:
+      "Renames a saved quick role profile. A renamed default profile stays the default.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        profile: {
+          type: "string",
+          description: "The current profile name.",
+        },
+        newName: {
+          type: "string",
+          description: "The new profile name.",
+        },
+      },
+      required: ["profile", "newName"],
+    },
+    outputSchema: profileUpdateSchema,
+  },
+  {
+    name: "delete_quick_role_profile",
+    description:
+      "Deletes a saved quick role profile.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        profile: {
+          type: "string",
+          description: "The profile to delete.",
+        },
+      },
+      required: ["profile"],
+    },
+    outputSchema: profileUpdateSchema,
+  },
+  {
+    name: "set_default_quick_role_profile",
+    description:
+      "Chooses which quick role profile activate_quick_roles uses when no profile is named.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        profile: {
+          type: "string",
+          description: "The profile to make the default.",
+        },
+      },
+      required: ["profile"],
+    },
+    outputSchema: profileUpdateSchema,
+  },
+  {
+    name: "show_config",
+    description:
+      "Shows every effective configuration setting and which layer it came from: environment variables, the project's .pim-me-mcp.json or the user's ~/.pim-me-mcp.json.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+      required: [],
+    },
+    outputSchema: effectiveConfigSchema,
+  },
+  {
+    name: "show_elevation_history",
+    description:
+      "Shows recorded elevations from the local audit log, newest first: every activation, deactivation and extension made through this server, the pim-me CLI or the library, with its justification, duration, request ID, outcome and client.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        since: {
+          type: "string",
+          description: "Only elevations at or after this ISO 8601 date or date-time (e.g., '2024-06-01')",
+        },
+        until: {
+          type: "string",
+          description: "Only elevations at or before this ISO 8601 date or date-time; a date includes that whole day",
+        },
+        role: {
+          type: "string",
+          description: "Only elevations whose role name, scope name or scope ID contains this text",
+        },
+        limit: {
+          type: "number",
+          description: "Show at most this many elevations (default: 50)",
+        },
+      },
+      required: [],
+    },
+    outputSchema: auditLogQueryResultSchema,
   },
 ];
 
+// Describe each quick role profile, marking the default one
+function formatProfiles(config: QuickRoleProfiles): string {
+  return Object.entries(config.profiles)
+    .map(([profileName, profile]) => {
+      const isDefault = profileName === config.defaultProfile ? " (default)" : "";
+      const details = [
+        profile.description,
+        profile.defaultDurationHours !== undefined ? `${profile.defaultDurationHours}h` : undefined,
+        profile.defaultJustification ? `justification: "${profile.defaultJustification}"` : undefined,
+      ].filter(Boolean).join(" · ");
+      const roles = profile.roles.map((r) => `  • ${r.name} (${r.scope})`).join("\n");
+      return `**${profileName}**${isDefault}${details ? ` — ${details}` : ""}\n${roles}`;
+    })
+    .join("\n\n");
+}
+
+// A tool result with typed structuredContent, and a text rendering of it for display
+function structuredResult(structuredContent: object, text: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text,
+      },
+    ],
+    structuredContent: structuredContent as Record<string, unknown>,
+  };
+}
+
+function sourceLabel(roleSource: RoleSource): string {
+  return roleSource === "directory" ? " [Entra ID]" : roleSource === "group" ? " [Group]" : "";
+}
+
+function formatEligibleRoles(roles: PimRoleAssignment[]): string {
+  return roles.map((r) => {
+    const requirements = r.policy ? describeActivationPolicy(r.policy) : "";
+    return `• **${r.roleName}** (${r.scopeName})${sourceLabel(r.roleSource)} — ${r.memberType}` +
+      `${requirements ? `\n  Requires: ${requirements}` : ""}\n  id: \`${r.id}\``;
+  }).join("\n\n");
+}
+
+function formatActiveRoles(roles: ActiveRoleAssignment[]): string {
+  return roles.map((r) => {
+    const startTime = r.startDateTime ? new Date(r.startDateTime).toLocaleString() : "Unknown";
+    const endTime = r.endDateTime ? new Date(r.endDateTime).toLocaleString() : "Unknown";
+    const starts = r.status === "Scheduled" ? `\n  Starts: ${startTime}` : "";
+    return `• **${r.roleName}** (${r.scopeName})${sourceLabel(r.roleSource)}${starts}\n  Expires: ${endTime}`;
+  }).join("\n\n");
+}
+
+function formatFailures(failedRoles: { role: string; error: string }[]): string[] {
+  return failedRoles.length > 0
+    ? [`❌ **Failed:**\n${failedRoles.map((f) => `  • ${f.role}: ${f.error}`).join("\n")}`]
+    : [];
+}
+
+function formatPlan(result: CliActivationResult): string {
+  const lines = (result.plan ?? []).map((p) => {
+    const target = p.roleName
+      ? `**${p.roleName}** (${p.scopeName})${sourceLabel(p.roleSource!)} — ${p.memberType}`
+      : `**${p.role}**`;
+    const details = [
+      p.id ? `id: \`${p.id}\`` : undefined,
+      p.linkedRoleEligibilityScheduleId ? `linked schedule: \`${p.linkedRoleEligibilityScheduleId}\`` : undefined,
+      p.durationHours !== undefined ? `${p.durationHours}h` : undefined,
+      p.startDateTime ? `from ${new Date(p.startDateTime).toLocaleString()}` : undefined,
+    ].filter(Boolean).join(" · ");
+    return `• ${target}: **${p.expectedOutcome}**${p.reason ? ` — ${p.reason}` : ""}${details ? `\n  ${details}` : ""}`;
+  });
+  return [
+    `🔍 ${result.message}`,
+    lines.join("\n"),
+    ...result.warnings.map((w) => `⚠️ ${w.role}: ${w.message}`),
+  ].filter(Boolean).join("\n\n");
+}
+
+function formatActivationResult(result: CliActivationResult): string {
+  if (result.plan) {
+    return formatPlan(result);
+  }
+  const buckets: [string, string[]][] = [
+    ["✅ **Activated**", result.activatedRoles],
+    ["⏳ **Pending approval**", result.pendingApprovalRoles],
+    ["📨 **Submitted, not yet provisioned**", result.submittedRoles],
+    ["🗓️ **Scheduled**", result.scheduledRoles],
+  ];
+  const lines = [
+    result.message,
+    ...buckets.filter(([, roles]) => roles.length > 0).map(([label, roles]) => `${label}: ${roles.join(", ")}`),
+    ...formatFailures(result.failedRoles),
+    ...result.warnings.map((w) => `⚠️ ${w.role}: ${w.message}`),
+  ];
+  const pending = result.requests.filter((r) => r.state !== "activated");
+  if (pending.length > 0) {
+    lines.push(`Use check_activation_status to follow up on ${pending.length} request(s).`);
+  }
+  return lines.join("\n\n");
+}
+
+function formatRequests(requests: ActivationRequest[]): string {
+  return requests
+    .map((r) => `• **${r.role}**: ${r.state} (${r.status || "unknown status"})${r.error ? ` — ${r.error}` : ""}`)
+    .join("\n");
+}
+
+function formatRoleRequests(requests: PimRoleRequest[]): string {
+  return requests.map((r) => {
+    const created = r.createdDateTime ? new Date(r.createdDateTime).toLocaleString() : "Unknown";
+    const details = [
+      `Requested: ${created}`,
+      r.startDateTime ? `Window: ${new Date(r.startDateTime).toLocaleString()} – ${r.endDateTime ? new Date(r.endDateTime).toLocaleString() : "?"}` : undefined,
+      r.approver ? `Approver: ${r.approver}` : undefined,
+      r.justification ? `Justification: "${r.justification}"` : undefined,
+    ].filter(Boolean).join("\n  ");
+    return `• **${r.roleName}** (${r.scopeName})${sourceLabel(r.roleSource)} — ${r.requestType}: ${r.status}` +
+      `${r.cancellable ? " (cancellable)" : ""}\n  ${details}\n  requestId: \`${r.requestId}\``;
+  }).join("\n\n");
+}
+
+function formatDeactivationResult(result: CliDeactivationResult): string {
+  return [
+    result.message,
+    ...(result.deactivatedRoles.length > 0 ? [`✅ **Deactivated**: ${result.deactivatedRoles.join(", ")}`] : []),
+    ...formatFailures(result.failedRoles),
+    ...result.warnings.map((w) => `⚠️ ${w.role}: ${w.message}`),
+  ].join("\n\n");
+}
+
+function formatExtensionResult(result: CliExtensionResult): string {
+  const extended = result.extendedRoles.map(
+    (r) => `  • ${r.role}${r.endDateTime ? ` until ${new Date(r.endDateTime).toLocaleString()}` : ""}`
+  );
+  return [
+    result.message,
+    ...(extended.length > 0 ? [`✅ **Extended:**\n${extended.join("\n")}`] : []),
+    ...(result.pendingRoles.length > 0 ? [`⏳ **Pending**: ${result.pendingRoles.join(", ")}`] : []),
+    ...formatFailures(result.failedRoles),
+  ].join("\n\n");
+}
+
+function formatAuditEntries(entries: AuditEntry[]): string {
+  return entries.map((e) => {
+    const details = [
+      e.justification ? `"${e.justification}"` : undefined,
+      e.durationHours !== undefined ? `${e.durationHours}h` : undefined,
+      `via ${e.client}`,
+    ].filter(Boolean).join(" · ");
+    return `• ${new Date(e.timestamp).toLocaleString()} — **${e.action}** ${e.role} (${e.scopeName ?? e.scope})` +
+      `${sourceLabel(e.roleSource ?? "azureResource")}: ${e.outcome}${e.error ? ` — ${e.error}` : ""}\n  ${details}`;
+  }).join("\n");
+}
+
+// A role object accepted by activate_pim_roles
+interface ActivatePimRoleInput {
+  name?: string;
+  scope?: string;
+  roleSource?: RoleSource;
+  id?: string;
+  duration?: number;
+}
+
+// Activation requests submitted through this server, so check_activation_status can find them
+const submittedRequests = new Map<string, ActivationRequest>();
+
+function trackRequests(requests: ActivationRequest[]) {
+  for (const request of requests) {
+    submittedRequests.set(request.requestId, request);
+  }
+}
+
 // Create the MCP server
 const server = new Server(
   {
@@ -140,31 +750,151 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      logging: {},
+      resources: { subscribe: true },
     },
   }
 );
 
-// Handle tool listing
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools };
+// Handle tool listing
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return { tools };
+});
+
+const ELIGIBLE_ROLES_URI = "pim://roles/eligible";
+const ACTIVE_ROLES_URI = "pim://roles/active";
+const QUICK_ROLES_URI = "pim://config/quick-roles";
+
+const resources = [
+  {
+    uri: ELIGIBLE_ROLES_URI,
+    name: "Eligible PIM roles",
+    description: "Every role you can activate: Azure resource roles, Entra ID directory roles and group access",
+    mimeType: "application/json",
+  },
+  {
+    uri: ACTIVE_ROLES_URI,
+    name: "Active PIM roles",
+    description: "Currently elevated roles with their expiration times, and scheduled activations",
+    mimeType: "application/json",
+  },
+  {
+    uri: QUICK_ROLES_URI,
+    name: "Quick role profiles",
+    description: "Your saved quick role profiles and which one is the default",
+    mimeType: "application/json",
+  },
+];
+
+// Resources changed by each tool, announced to subscribers after the tool succeeds
+const RESOURCES_CHANGED_BY_TOOL: Record<string, string[]> = {
+  activate_quick_roles: [ACTIVE_ROLES_URI],
+  activate_pim_roles: [ACTIVE_ROLES_URI],
+  check_activation_status: [ACTIVE_ROLES_URI],
+  cancel_pending_request: [ACTIVE_ROLES_URI],
+  deactivate_roles: [ACTIVE_ROLES_URI],
+  extend_active_roles: [ACTIVE_ROLES_URI],
+  save_quick_roles: [QUICK_ROLES_URI],
+  rename_quick_role_profile: [QUICK_ROLES_URI],
+  delete_quick_role_profile: [QUICK_ROLES_URI],
+  set_default_quick_role_profile: [QUICK_ROLES_URI],
+};
+
+// Resources the client has subscribed to
+const subscriptions = new Set<string>();
+
+function notifyResourceUpdated(uri: string) {
+  if (!subscriptions.has(uri)) {
+    return;
+  }
+  server.sendResourceUpdated({ uri })
+    .catch((error) => console.error(`Failed to send resource update for ${uri}:`, error));
+}
+
+// Handle resource listing
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  return { resources };
+});
+
+// Handle resource reads
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  const { uri } = request.params;
+
+  let contents: unknown;
+  switch (uri) {
+    case ELIGIBLE_ROLES_URI:
+      contents = await listEligibleRoles(await loadPimOptions());
+      break;
+    case ACTIVE_ROLES_URI:
+      contents = await listActiveRoles(await loadPimOptions());
+      break;
+    case QUICK_ROLES_URI:
+      contents = loadQuickRoleProfiles() ?? { profiles: {} };
+      break;
+    default:
+      throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(contents, null, 2),
+      },
+    ],
+  };
+});
+
+// Handle resource subscriptions
+server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  const { uri } = request.params;
+  if (!resources.some((r) => r.uri === uri)) {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+  subscriptions.add(uri);
+  return {};
+});
+
+server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  subscriptions.delete(request.params.uri);
+  return {};
 });
 
 // Handle tool calls
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
   const { name, arguments: args } = request.params;
+  const result = await callTool(name, args);
+  // A dry run changes nothing, so there's nothing to notify about
+  if (!result.isError && !args?.dryRun) {
+    for (const uri of RESOURCES_CHANGED_BY_TOOL[name] ?? []) {
+      notifyResourceUpdated(uri);
+    }
+  }
+  return result;
+});
+
+async function callTool(name: string, args: Record<string, unknown> | undefined): Promise<CallToolResult> {
 
   try {
+    // Read the token provider and retry settings fresh too, so config changes apply without a reload.
+    // Elevations made with these options are recorded in the audit log as coming from MCP.
+    const options: PimOptions = { ...(await loadPimOptions()), client: "mcp" };
+
     switch (name) {
       case "activate_quick_roles": {
         // Always read fresh config to pick up any changes
-        const currentConfig = loadQuickRolesConfig();
+        const profile = args?.profile as string | undefined;
+        const currentConfig = loadQuickRolesConfig(profile);
         
         if (!currentConfig) {
           return {
             content: [
               {
                 type: "text",
-                text: "Error: Quick roles are not configured. Use list_quick_roles and save_quick_roles to configure them, or create ~/.pim-me-mcp.json",
+                text: profile
+                  ? `Error: Quick role profile "${profile}" is not configured. Use list_quick_role_profiles to see your profiles.`
+                  : "Error: Quick roles are not configured. Use list_quick_roles and save_quick_roles to configure them, or create ~/.pim-me-mcp.json",
               },
             ],
             isError: true,
@@ -172,7 +902,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
 
         const justification = (args?.justification as string) || currentConfig.defaultJustification;
-        const duration = (args?.duration as number) ?? 8;
+        const duration = (args?.duration as number) ?? currentConfig.defaultDurationHours ?? 8;
 
         if (!justification) {
           return {
@@ -189,32 +919,34 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const result = await activateRoles(
           currentConfig.roles,
           justification,
-          duration
+          duration,
+          {
+            ...options,
+            waitForProvisioning: (args?.waitForProvisioning as boolean) ?? false,
+            dryRun: (args?.dryRun as boolean) ?? false,
+            provisioningTimeoutSeconds: args?.provisioningTimeoutSeconds as number | undefined,
+            ticketNumber: args?.ticketNumber as string | undefined,
+            startDateTime: args?.startDateTime as string | undefined,
+            endDateTime: args?.endDateTime as string | undefined,
+            ticketSystem: (args?.ticketSystem as string | undefined) ?? currentConfig.defaultTicketSystem,
+          }
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
+        trackRequests(result.requests);
+        return structuredResult(result, formatActivationResult(result));
       }
 
       case "list_eligible_roles": {
-        const result = await listEligibleRoles();
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
+        const result = await listEligibleRoles({ ...options, includePolicies: true });
+        return structuredResult(
+          result,
+          result.roles.length > 0
+            ? `**Eligible roles (${result.roles.length}):**\n\n${formatEligibleRoles(result.roles)}\n\n${result.message}`
+            : result.message
+        );
       }
 
       case "list_active_roles": {
-        const result = await listActiveRoles();
+        const result = await listActiveRoles(options);
         
         if (!result.success) {
           return {
@@ -228,35 +960,25 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        if (result.roles.length === 0) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: "No active role elevations found. Use `activate_quick_roles` or `activate_pim_roles` to elevate.",
-              },
-            ],
-          };
+        if (result.roles.length === 0 && result.scheduledRoles.length === 0) {
+          return structuredResult(
+            result,
+            "No active role elevations found. Use `activate_quick_roles` or `activate_pim_roles` to elevate."
+          );
         }
 
-        // Format nicely for display
-        const rolesList = result.roles.map((r) => {
-          const endTime = r.endDateTime ? new Date(r.endDateTime).toLocaleString() : "Unknown";
-          return `• **${r.roleName}** (${r.scopeName})\n  Expires: ${endTime}`;
-        }).join("\n\n");
+        const scheduledSection = result.scheduledRoles.length > 0
+          ? `\n\n**Scheduled Activations (${result.scheduledRoles.length}):**\n\n${formatActiveRoles(result.scheduledRoles)}`
+          : "";
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `**Active Role Elevations (${result.roles.length}):**\n\n${rolesList}`,
-            },
-          ],
-        };
+        return structuredResult(
+          result,
+          `**Active Role Elevations (${result.roles.length}):**\n\n${formatActiveRoles(result.roles) || "None"}${scheduledSection}`
+        );
       }
 
       case "activate_pim_roles": {
-        const roles = args?.roles as string[];
+        const roles = args?.roles as (string | ActivatePimRoleInput)[];
         const justification = args?.justification as string;
         const duration = (args?.duration as number) ?? 8;
 
@@ -284,27 +1006,259 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        // Convert role strings to {name, scope} objects
-        // For simple role names, we'll try to match by name only
-        const roleObjects = roles.map((r) => ({ name: r, scope: "" }));
+        const invalidRoles = roles.filter((r) => typeof r !== "string" && !r.name && !r.id);
+        if (invalidRoles.length > 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Error: Each role object needs a name or an id.",
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        // Plain role names (the original input form) match at any scope
+        const roleObjects: RoleConfig[] = roles.map((r) =>
+          typeof r === "string"
+            ? { name: r, scope: "" }
+            : {
+                name: r.name ?? "",
+                scope: r.scope ?? "",
+                roleSource: r.roleSource,
+                id: r.id,
+                durationHours: r.duration,
+              }
+        );
         const result = await activateRoles(
           roleObjects,
           justification,
-          duration
+          duration,
+          {
+            ...options,
+            waitForProvisioning: (args?.waitForProvisioning as boolean) ?? false,
+            dryRun: (args?.dryRun as boolean) ?? false,
+            provisioningTimeoutSeconds: args?.provisioningTimeoutSeconds as number | undefined,
+            ticketNumber: args?.ticketNumber as string | undefined,
+            startDateTime: args?.startDateTime as string | undefined,
+            endDateTime: args?.endDateTime as string | undefined,
+            ticketSystem: args?.ticketSystem as string | undefined,
+          }
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
+        trackRequests(result.requests);
+        return structuredResult(result, formatActivationResult(result));
+      }
+
+      case "check_activation_status": {
+        const requestIds = args?.requestIds as string[] | undefined;
+
+        const unknownIds = requestIds?.filter((id) => !submittedRequests.has(id)) ?? [];
+        if (unknownIds.length > 0) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: Unknown request IDs: ${unknownIds.join(", ")}. Only requests submitted through this server session can be checked.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const toCheck = requestIds && requestIds.length > 0
+          ? requestIds.map((id) => submittedRequests.get(id)!)
+          : [...submittedRequests.values()].filter(
+              (r) => r.state === "submitted" || r.state === "pendingApproval" || r.state === "scheduled"
+            );
+
+        if (toCheck.length === 0) {
+          return structuredResult({ requests: [] }, "No pending activation requests to check.");
+        }
+
+        const requests = await checkActivationStatus(toCheck, options);
+        trackRequests(requests);
+
+        return structuredResult({ requests }, `**Activation requests:**\n\n${formatRequests(requests)}`);
+      }
+
+      case "list_role_requests": {
+        const result = await listRoleRequests({
+          ...options,
+          pendingOnly: args?.pendingOnly as boolean | undefined,
+          limit: (args?.limit as number | undefined) ?? 20,
+        });
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${result.message}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        return structuredResult(
+          result,
+          result.requests.length > 0
+            ? `**PIM requests (${result.requests.length}):**\n\n${formatRoleRequests(result.requests)}\n\n${result.message}`
+            : result.message
+        );
+      }
+
+      case "cancel_pending_request": {
+        const requestId = args?.requestId as string;
+        if (!requestId) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Error: No requestId given. Use list_role_requests with pendingOnly to find it.",
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        // Look the request up to know its backend, and that it can still be cancelled
+        const pending = await listRoleRequests({ ...options, pendingOnly: true });
+        const request = pending.requests.find((r) => r.requestId.toLowerCase() === requestId.toLowerCase());
+        if (!request) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: pending.success
+                  ? `Error: No pending or scheduled request ${requestId}. Use list_role_requests to see its status.`
+                  : `Error: ${pending.message}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const result = await cancelRequest(request, options);
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${result.message}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        return structuredResult(
+          result,
+          `✅ Cancelled the ${request.requestType} request for **${request.roleName}** (${request.scopeName})`
+        );
+      }
+
+      case "deactivate_roles": {
+        const roles = args?.roles as { name: string; scope?: string; roleSource?: RoleSource }[] | undefined;
+        const all = (args?.all as boolean) ?? false;
+
+        if (!all && (!roles || roles.length === 0)) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Error: No roles specified for deactivation. Provide roles or set all to true.",
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const result = all
+          ? await deactivateAllRoles(options)
+          : await deactivateRoles(
+              roles!.map((r) => ({ name: r.name, scope: r.scope ?? "", roleSource: r.roleSource })),
+              options
+            );
+        return structuredResult(result, formatDeactivationResult(result));
+      }
+
+      case "extend_active_roles": {
+        const roles = args?.roles as { name: string; scope?: string; roleSource?: RoleSource }[] | undefined;
+        const all = (args?.all as boolean) ?? false;
+        const justification = args?.justification as string;
+        const duration = (args?.duration as number) ?? 8;
+
+        if (!all && (!roles || roles.length === 0)) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Error: No roles specified for extension. Provide roles or set all to true.",
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        if (!justification) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Error: Justification is required to extend PIM roles.",
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const activeResult = await listActiveRoles(options);
+        if (!activeResult.success) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${activeResult.message}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        // Resolve requested names to active assignments; ambiguous or missing roles fail
+        const resolution = all
+          ? { resolved: activeResult.roles.map((assignment) => ({ assignment })), failedRoles: [] }
+          : resolveActiveRoles(
+              roles!.map((r) => ({ name: r.name, scope: r.scope ?? "", roleSource: r.roleSource })),
+              activeResult.roles
+            );
+        const toExtend = resolution.resolved.map((r) => r.assignment);
+
+        const extension = toExtend.length > 0
+          ? await extendRoles(toExtend, justification, duration, options)
+          : undefined;
+        const failedRoles = [...resolution.failedRoles, ...(extension?.failedRoles ?? [])];
+        const extendedRoles = extension?.extendedRoles ?? [];
+        const pendingRoles = extension?.pendingRoles ?? [];
+        const result: CliExtensionResult = {
+          success: failedRoles.length === 0 && (extension?.success ?? true),
+          extendedRoles,
+          pendingRoles,
+          failedRoles,
+          requests: extension?.requests ?? [],
+          message: resolution.failedRoles.length === 0 && extension
+            ? extension.message
+            : extensionMessage(extendedRoles.length, failedRoles.length, pendingRoles.length),
         };
+
+        return structuredResult(result, formatExtensionResult(result));
       }
 
       case "list_quick_roles": {
         // Get eligible roles and format them for selection
-        const listResult = await listEligibleRoles();
+        const listResult = await listEligibleRoles(options);
         
         if (!listResult.success) {
           return {
@@ -318,27 +1272,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        // Format roles with indices for selection
-        const rolesWithIndices = listResult.roles.map((role, index) => ({
-          index,
-          name: role.roleName,
-          scope: role.scopeName,
-          fullScope: role.scope,
-          memberType: role.memberType,
-        }));
+        // Number the roles for selection
+        const rolesWithIndices = listResult.roles.map((role, index) => ({ index, ...role }));
 
-        // Show current quick roles if configured (read fresh)
-        const currentQuickRoles = loadQuickRolesConfig();
+        // Show current quick role profiles if configured (read fresh)
+        const currentProfiles = loadQuickRoleProfiles();
         let currentConfig = "";
-        if (currentQuickRoles) {
-          currentConfig = `\n\n**Currently configured quick roles:**\n${currentQuickRoles.roles
-            .map((r) => `• ${r.name} (${r.scope})`)
-            .join("\n")}`;
+        if (currentProfiles) {
+          currentConfig = `\n\n**Currently configured quick role profiles:**\n\n${formatProfiles(currentProfiles)}`;
         }
 
         // Build the role list as plain text to ensure it displays
         const roleList = rolesWithIndices
-          .map((r) => `${r.index}. ${r.name} — ${r.scope} (${r.memberType})`)
+          .map((r) => `${r.index}. ${r.roleName} — ${r.scopeName} (${r.memberType}${r.roleSource === "directory" ? ", Entra ID" : r.roleSource === "group" ? ", Group" : ""})`)
           .join("\n");
 
         const instructions = `IMPORTANT: You MUST display this entire role list to the user. Do not summarize or truncate.
@@ -352,22 +1298,20 @@ ${currentConfig}
 
 Tell the user which roles they want to save by index number (e.g., "save 0, 3, and 7").`;
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: instructions,
-            },
-          ],
-          // Store roles in a way the next call can use them
-          _eligibleRoles: rolesWithIndices,
-        };
+        return structuredResult(
+          { roles: rolesWithIndices, profiles: currentProfiles?.profiles ?? {}, defaultProfile: currentProfiles?.defaultProfile },
+          instructions
+        );
       }
 
       case "save_quick_roles": {
         const indices = args?.indices as number[];
+        const profile = args?.profile as string | undefined;
+        const makeDefault = (args?.makeDefault as boolean) ?? false;
+        const defaultDuration = args?.defaultDuration as number | undefined;
         const description = args?.description as string | undefined;
         const defaultJustification = args?.defaultJustification as string | undefined;
+        const defaultTicketSystem = args?.defaultTicketSystem as string | undefined;
 
         if (!indices || indices.length === 0) {
           return {
@@ -382,7 +1326,7 @@ Tell the user which roles they want to save by index number (e.g., "save 0, 3, a
         }
 
         // Fetch roles again to get the full list
-        const listResult = await listEligibleRoles();
+        const listResult = await listEligibleRoles(options);
         
         if (!listResult.success) {
           return {
@@ -412,14 +1356,27 @@ Tell the user which roles they want to save by index number (e.g., "save 0, 3, a
           };
         }
 
-        // Build the roles to save
+        // Build the roles to save, by scope ID and eligibility ID so they resolve to exactly these roles
         const rolesToSave: RoleConfig[] = indices.map((i) => ({
           name: listResult.roles[i].roleName,
-          scope: listResult.roles[i].scopeName,
+          scope: listResult.roles[i].scope,
+          roleSource: listResult.roles[i].roleSource,
+          id: listResult.roles[i].id,
         }));
 
         // Save to config file
-        const saveResult = saveQuickRolesConfig(rolesToSave, description, defaultJustification);
+        const profileName = profile ?? loadQuickRoleProfiles()?.defaultProfile ?? DEFAULT_PROFILE_NAME;
+        const saveResult = saveQuickRoleProfile(
+          profileName,
+          {
+            roles: rolesToSave,
+            description,
+            defaultJustification,
+            defaultDurationHours: defaultDuration,
+            defaultTicketSystem,
+          },
+          makeDefault
+        );
 
         if (!saveResult.success) {
           return {
@@ -435,30 +1392,132 @@ Tell the user which roles they want to save by index number (e.g., "save 0, 3, a
 
         // Config is read fresh on each activate_quick_roles call, so no reload needed
 
-        const savedRolesList = rolesToSave
-          .map((r) => `• ${r.name} (${r.scope})`)
+        const savedRolesList = indices
+          .map((i) => `• ${listResult.roles[i].roleName} (${listResult.roles[i].scopeName})`)
           .join("\n");
 
         const justificationNote = defaultJustification 
           ? `\n**Default justification:** "${defaultJustification}"\n\nYou can now activate your quick roles without providing a justification each time!`
           : `\n**Tip:** Just say "activate my quick roles for <justification>" to use them.`;
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `✅ **Quick roles saved successfully!**
+        return structuredResult(
+          { success: true, path: saveResult.path, profile: profileName, roles: rolesToSave },
+          `✅ **Quick roles saved successfully!**
 
-**Saved to:** \`${saveResult.path}\`
+**Saved to:** \`${saveResult.path}\` (profile \`${profileName}\`)
 
 **Your quick roles:**
 ${savedRolesList}
 
 You can now use the \`activate_quick_roles\` tool to activate all of these with a single command!
-${justificationNote}`,
-            },
-          ],
-        };
+${justificationNote}`
+        );
+      }
+
+      case "list_quick_role_profiles": {
+        const currentProfiles = loadQuickRoleProfiles();
+        if (!currentProfiles || Object.keys(currentProfiles.profiles).length === 0) {
+          return structuredResult(
+            { profiles: {} },
+            "No quick role profiles are configured. Use list_quick_roles and save_quick_roles to create one."
+          );
+        }
+
+        return structuredResult(currentProfiles, `**Quick role profiles:**\n\n${formatProfiles(currentProfiles)}`);
+      }
+
+      case "rename_quick_role_profile":
+      case "delete_quick_role_profile":
+      case "set_default_quick_role_profile": {
+        const profile = args?.profile as string;
+        const newName = args?.newName as string;
+
+        if (!profile || (name === "rename_quick_role_profile" && !newName)) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: name === "rename_quick_role_profile"
+                  ? "Error: Both profile and newName are required."
+                  : "Error: No profile specified.",
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const result = name === "rename_quick_role_profile"
+          ? renameQuickRoleProfile(profile, newName)
+          : name === "delete_quick_role_profile"
+          ? deleteQuickRoleProfile(profile)
+          : setDefaultQuickRoleProfile(profile);
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error updating profiles: ${result.error}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const done = name === "rename_quick_role_profile"
+          ? `Renamed profile \`${profile}\` to \`${newName}\`.`
+          : name === "delete_quick_role_profile"
+          ? `Deleted profile \`${profile}\`.`
+          : `\`${profile}\` is now the default profile.`;
+
+        return structuredResult(
+          { success: true, path: result.path, profile, newName: name === "rename_quick_role_profile" ? newName : undefined },
+          `✅ ${done} (saved to \`${result.path}\`)`
+        );
+      }
+
+      case "show_config": {
+        const effective = getEffectiveConfig();
+        if (effective.values.length === 0) {
+          return structuredResult(
+            effective,
+            "No configuration is set. Settings can come from environment variables, ./.pim-me-mcp.json or ~/.pim-me-mcp.json."
+          );
+        }
+
+        const lines = effective.values.map(
+          (v) => `- \`${v.key}\` = \`${JSON.stringify(v.value)}\`\n  (${v.layer}: ${v.source})`
+        );
+
+        return structuredResult(effective, `**Effective configuration** (env > project > user):\n\n${lines.join("\n")}`);
+      }
+
+      case "show_elevation_history": {
+        const result = queryAuditLog({
+          since: args?.since as string | undefined,
+          until: args?.until as string | undefined,
+          role: args?.role as string | undefined,
+          limit: (args?.limit as number | undefined) ?? 50,
+        });
+
+        if (!result.success) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: ${result.message}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        return structuredResult(
+          result,
+          result.entries.length > 0
+            ? `**Elevation history** (\`${result.path}\`):\n\n${formatAuditEntries(result.entries)}\n\n${result.message}`
+            : result.message
+        );
       }
 
       default:
@@ -485,13 +1544,35 @@ ${justificationNote}`,
       isError: true,
     };
   }
-});
+}
 
 // Start the server
 async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("PIM MCP Server running on stdio");
+
+  let settings: ExpiryNotificationSettings | undefined;
+  try {
+    settings = getEffectiveConfig().config.expiryNotifications;
+  } catch (error) {
+    console.error(`Using default expiry notification settings: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // Warn the client as elevations near their end, and let it know the active roles changed
+  startExpiryMonitor(
+    settings,
+    async () => listActiveRoles(await loadPimOptions()),
+    (event) => {
+      console.error(event.message);
+      server.sendLoggingMessage({
+        level: event.kind === "expiring" ? "warning" : "notice",
+        logger: "pim-me",
+        data: event.message,
+      }).catch((error) => console.error("Failed to send expiry notification:", error));
+      notifyResourceUpdated(ACTIVE_ROLES_URI);
+    }
+  );
 }
 
 main().catch((error) => {
@@ -0,0 +1,188 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { readFileSync } from "fs";
+import { homedir } from "os";
+import { resolve } from "path";
+import { pathToFileURL } from "url";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * A tenant ID (GUID) or domain name (e.g., "contoso.onmicrosoft.com")
+ */
+export const TENANT_PATTERN =
+  /^(?:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63})$/i;
+
+/**
+ * An access token for a resource such as https://management.azure.com
+ */
+export interface AccessToken {
+  token: string;
+  /** When the token expires, if known */
+  expiresOn?: Date;
+}
+
+/**
+ * Supplies access tokens for Azure Resource Manager and Microsoft Graph.
+ * Pass one to the library through the tokenProvider option to replace the Azure CLI.
+ */
+export interface TokenProvider {
+  /** Tenant the tokens are issued for, if the provider pins one; part of the token cache key */
+  readonly tenant?: string;
+  getToken(resource: string): Promise<AccessToken>;
+}
+
+/**
+ * Where a static token is read from. The value is either a bare token, used for
+ * every resource, or a JSON object mapping resource URLs to tokens.
+ */
+export interface StaticTokenSource {
+  /** Environment variable holding the token (e.g., "PIM_ACCESS_TOKEN") */
+  envVar?: string;
+  /** File holding the token; "~/" is expanded to the home directory */
+  file?: string;
+}
+
+/**
+ * Token provider settings in .pim-me-mcp.json
+ */
+export type TokenProviderConfig =
+  | { type: "azureCli"; tenant?: string }
+  | ({ type: "static" } & StaticTokenSource)
+  | { type: "module"; path: string; export?: string };
+
+/**
+ * Execute an Azure CLI command and return the result.
+ * Arguments are passed as an array rather than through a shell, except on Windows,
+ * where az is a batch file that only a shell can run; callers validate what they pass.
+ */
+async function azCommand(args: string[]): Promise<string> {
+  try {
+    const { stdout, stderr } = await execFileAsync("az", args, {
+      maxBuffer: 10 * 1024 * 1024, // 10MB buffer
+      shell: process.platform === "win32",
+    });
+    if (stderr && !stderr.includes("WARNING")) {
+      console.error("Azure CLI stderr:", stderr);
+    }
+    return stdout;
+  } catch (error: any) {
+    throw new Error(`Azure CLI error: ${error.message}\n${error.stderr || ""}`);
+  }
+}
+
+/**
+ * Expand a leading ~/ to the home directory and resolve any other relative path against
+ * baseDir (default: the working directory)
+ */
+export function expandHome(path: string, baseDir?: string): string {
+  if (path.startsWith("~/")) {
+    return resolve(homedir(), path.slice(2));
+  }
+  return baseDir ? resolve(baseDir, path) : resolve(path);
+}
+
+/**
+ * Get tokens from the Azure CLI (`az account get-access-token`).
+ * This is the default provider and requires `az login`.
+ */
+export function azureCliTokenProvider(tenant?: string): TokenProvider {
+  if (tenant !== undefined && !TENANT_PATTERN.test(tenant)) {
+    throw new Error(`Invalid tenant "${tenant}": expected a tenant ID (GUID) or domain name`);
+  }
+
+  return {
+    tenant,
+    async getToken(resource: string): Promise<AccessToken> {
+      const tenantArgs = tenant ? ["--tenant", tenant] : [];
+      const result = await azCommand(["account", "get-access-token", "--resource", resource, ...tenantArgs]);
+      const tokenData = JSON.parse(result);
+      // Newer CLI versions return expires_on (epoch seconds); older ones only the local-time expiresOn
+      const expiresOn = tokenData.expires_on
+        ? new Date(Number(tokenData.expires_on) * 1000)
+        : tokenData.expiresOn
+          ? new Date(tokenData.expiresOn)
+          : undefined;
+      return { token: tokenData.accessToken, expiresOn };
+    },
+  };
+}
+
+/**
+ * Use a pre-acquired token from an environment variable or file.
+ * Useful in containers and CI where the Azure CLI is not available.
+ */
+export function staticTokenProvider(source: StaticTokenSource): TokenProvider {
+  if (!source.envVar && !source.file) {
+    throw new Error("Static token provider needs an envVar or a file.");
+  }
+
+  return {
+    async getToken(resource: string): Promise<AccessToken> {
+      let raw: string | undefined;
+      if (source.envVar) {
+        raw = process.env[source.envVar];
+      }
+      if (!raw && source.file) {
+        raw = readFileSync(expandHome(source.file), "utf-8");
+      }
+      raw = raw?.trim();
+
+      if (!raw) {
+        throw new Error(
+          `No static token found in ${source.envVar ? `$${source.envVar}` : ""}${source.envVar && source.file ? " or " : ""}${source.file ?? ""}`
+        );
+      }
+
+      if (!raw.startsWith("{")) {
+        return { token: raw };
+      }
+
+      const tokens = JSON.parse(raw) as Record<string, string>;
+      const token = tokens[resource] ?? tokens[resource.replace(/\/$/, "")];
+      if (!token) {
+        throw new Error(`Static token source has no token for ${resource}`);
+      }
+      return { token };
+    },
+  };
+}
+
+/**
+ * Wrap a user-supplied async function as a token provider.
+ * The function may return a bare token or an AccessToken with its expiry.
+ */
+export function functionTokenProvider(
+  getToken: (resource: string) => Promise<string | AccessToken>
+): TokenProvider {
+  return {
+    async getToken(resource: string): Promise<AccessToken> {
+      const result = await getToken(resource);
+      return typeof result === "string" ? { token: result } : result;
+    },
+  };
+}
+
+/**
+ * Build a token provider from .pim-me-mcp.json settings.
+ * The "module" type imports an ES module and wraps one of its exported functions.
+ */
+export async function createTokenProvider(config: TokenProviderConfig): Promise<TokenProvider> {
+  switch (config.type) {
+    case "azureCli":
+      return azureCliTokenProvider(config.tenant);
+    case "static":
+      return staticTokenProvider(config);
+    case "module": {
+      const mod = await import(pathToFileURL(expandHome(config.path)).href);
+      const exportName = config.export ?? "default";
+      const getToken = mod[exportName];
+      if (typeof getToken !== "function") {
+        throw new Error(`Token provider module ${config.path} does not export a function named "${exportName}"`);
+      }
+      return functionTokenProvider(getToken);
+    }
+    default:
+      throw new Error(`Unknown token provider type: ${(config as { type: string }).type}`);
+  }
+}
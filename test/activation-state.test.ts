@@ -0,0 +1,50 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { activationStateFromStatus, scheduleEndDateTime } from "../src/activation-state.js";
+
+describe("activationStateFromStatus", () => {
+  it("maps PIM statuses to states", () => {
+    assert.equal(activationStateFromStatus("Provisioned"), "activated");
+    assert.equal(activationStateFromStatus("PendingApproval"), "pendingApproval");
+    assert.equal(activationStateFromStatus("PendingAdminDecision"), "pendingApproval");
+    assert.equal(activationStateFromStatus("Denied"), "denied");
+    assert.equal(activationStateFromStatus("Canceled"), "denied");
+    assert.equal(activationStateFromStatus("Failed"), "failed");
+    assert.equal(activationStateFromStatus("TimedOut"), "failed");
+  });
+
+  it("treats unknown statuses as submitted", () => {
+    assert.equal(activationStateFromStatus("PendingProvisioning"), "submitted");
+    assert.equal(activationStateFromStatus(undefined), "submitted");
+  });
+
+  it("treats requests that start later as scheduled", () => {
+    const later = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const earlier = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    assert.equal(activationStateFromStatus("ScheduleCreated"), "scheduled");
+    assert.equal(activationStateFromStatus("Granted", later), "scheduled");
+    assert.equal(activationStateFromStatus("Granted", earlier), "submitted");
+  });
+
+  it("reports a deactivation that took effect as deactivated, not denied", () => {
+    assert.equal(activationStateFromStatus("Revoked", undefined, "SelfDeactivate"), "deactivated");
+    assert.equal(activationStateFromStatus("Revoked", undefined, "selfDeactivate"), "deactivated");
+    assert.equal(activationStateFromStatus("Provisioned", undefined, "SelfDeactivate"), "deactivated");
+    assert.equal(activationStateFromStatus("Revoked", undefined, "SelfActivate"), "denied");
+  });
+});
+
+describe("scheduleEndDateTime", () => {
+  it("prefers the end time and otherwise adds the duration to the start", () => {
+    assert.equal(
+      scheduleEndDateTime({ startDateTime: "2024-06-03T09:00:00Z", expiration: { endDateTime: "2024-06-03T12:00:00Z" } }),
+      "2024-06-03T12:00:00Z"
+    );
+    assert.equal(
+      scheduleEndDateTime({ startDateTime: "2024-06-03T09:00:00Z", expiration: { duration: "PT4H" } }),
+      "2024-06-03T13:00:00.000Z"
+    );
+    assert.equal(scheduleEndDateTime({ expiration: { duration: "PT4H" } }), undefined);
+    assert.equal(scheduleEndDateTime(undefined), undefined);
+  });
+});
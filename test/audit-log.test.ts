@@ -0,0 +1,137 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { auditLogPath, queryAuditLogFile, type AuditEntry } from "../src/audit-log.js";
+
+const entries: AuditEntry[] = [
+  {
+    timestamp: "2024-06-01T09:00:00.000Z",
+    action: "activate",
+    client: "mcp",
+    role: "Owner",
+    scope: "/subscriptions/11111111-1111-1111-1111-111111111111",
+    scopeName: "prod-subscription",
+    outcome: "activated",
+  },
+  {
+    timestamp: "2024-06-02T10:00:00.000Z",
+    action: "deactivate",
+    client: "cli",
+    role: "Owner",
+    scope: "/subscriptions/11111111-1111-1111-1111-111111111111",
+    scopeName: "prod-subscription",
+    outcome: "deactivated",
+  },
+  {
+    timestamp: "2024-06-03T23:30:00.000Z",
+    action: "activate",
+    client: "library",
+    role: "Reader",
+    scope: "/subscriptions/22222222-2222-2222-2222-222222222222",
+    scopeName: "dev-subscription",
+    outcome: "pendingApproval",
+  },
+];
+
+describe("queryAuditLogFile", () => {
+  const originalHome = process.env.HOME;
+  const originalCwd = process.cwd();
+  let home: string;
+
+  before(() => {
+    home = mkdtempSync(join(tmpdir(), "pim-me-audit-"));
+    process.env.HOME = home;
+    process.chdir(home);
+    const lines = entries.map((entry) => JSON.stringify(entry));
+    // Malformed and blank lines are skipped rather than failing the query
+    lines.splice(1, 0, "{not json", "", JSON.stringify({ note: "no timestamp" }));
+    writeFileSync(join(home, ".pim-me-audit.jsonl"), lines.join("\n") + "\n");
+  });
+
+  after(() => {
+    process.chdir(originalCwd);
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  it("returns every valid entry, newest first", () => {
+    const result = queryAuditLogFile();
+    assert.equal(result.success, true);
+    assert.deepEqual(result.entries.map((e) => e.timestamp), [
+      "2024-06-03T23:30:00.000Z",
+      "2024-06-02T10:00:00.000Z",
+      "2024-06-01T09:00:00.000Z",
+    ]);
+    assert.equal(result.path, join(home, ".pim-me-audit.jsonl"));
+  });
+
+  it("filters by date range, with a bare until date covering the whole day", () => {
+    const result = queryAuditLogFile({ since: "2024-06-02", until: "2024-06-03" });
+    assert.deepEqual(result.entries.map((e) => e.timestamp), [
+      "2024-06-03T23:30:00.000Z",
+      "2024-06-02T10:00:00.000Z",
+    ]);
+  });
+
+  it("filters by action and by role, scope name or scope ID", () => {
+    assert.deepEqual(queryAuditLogFile({ action: "deactivate" }).entries.map((e) => e.outcome), ["deactivated"]);
+    assert.deepEqual(queryAuditLogFile({ role: "reader" }).entries.map((e) => e.role), ["Reader"]);
+    assert.equal(queryAuditLogFile({ role: "PROD" }).entries.length, 2);
+    assert.equal(queryAuditLogFile({ role: "22222222" }).entries.length, 1);
+  });
+
+  it("limits the result to the newest entries", () => {
+    const result = queryAuditLogFile({ limit: 1 });
+    assert.deepEqual(result.entries.map((e) => e.role), ["Reader"]);
+    assert.equal(result.message, "Showing the latest 1 of 3 matching elevation(s).");
+  });
+
+  it("fails on an invalid date", () => {
+    const result = queryAuditLogFile({ since: "last week" });
+    assert.equal(result.success, false);
+    assert.match(result.message, /Invalid since: last week/);
+  });
+});
+
+describe("auditLogPath", () => {
+  const originalHome = process.env.HOME;
+  const originalCwd = process.cwd();
+  let root: string;
+  let home: string;
+
+  before(() => {
+    root = mkdtempSync(join(tmpdir(), "pim-me-audit-path-"));
+    home = join(root, "home");
+    mkdirSync(home);
+    mkdirSync(join(root, "project"));
+    process.env.HOME = home;
+    process.chdir(join(root, "project"));
+  });
+
+  after(() => {
+    process.chdir(originalCwd);
+    process.env.HOME = originalHome;
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  function setPath(path: string) {
+    writeFileSync(join(home, ".pim-me-mcp.json"), JSON.stringify({ version: 2, auditLog: { path } }));
+  }
+
+  it("resolves a relative path against the user config directory, not the working directory", () => {
+    setPath("logs/audit.jsonl");
+    assert.equal(auditLogPath(), join(home, "logs", "audit.jsonl"));
+  });
+
+  it("expands ~/ to the home directory", () => {
+    setPath("~/pim/audit.jsonl");
+    assert.equal(auditLogPath(), join(home, "pim", "audit.jsonl"));
+  });
+
+  it("keeps an absolute path", () => {
+    setPath(join(root, "audit.jsonl"));
+    assert.equal(auditLogPath(), join(root, "audit.jsonl"));
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { retryDelayMs, isRetryableResponse, DEFAULT_RETRY_POLICY } from "../src/azure-rest.js";
+
+describe("retryDelayMs", () => {
+  it("waits the Retry-After seconds", () => {
+    assert.equal(retryDelayMs(DEFAULT_RETRY_POLICY, 0, "5"), 5000);
+    assert.equal(retryDelayMs(DEFAULT_RETRY_POLICY, 2, "0"), 0);
+  });
+
+  it("waits until a Retry-After HTTP date", () => {
+    const delay = retryDelayMs(DEFAULT_RETRY_POLICY, 0, new Date(Date.now() + 10_000).toUTCString());
+    assert.ok(delay > 8000 && delay <= 10_000, `delay was ${delay}`);
+  });
+
+  it("caps Retry-After at maxDelayMs and never waits a negative time", () => {
+    assert.equal(retryDelayMs(DEFAULT_RETRY_POLICY, 0, "3600"), DEFAULT_RETRY_POLICY.maxDelayMs);
+    assert.equal(retryDelayMs(DEFAULT_RETRY_POLICY, 0, new Date(Date.now() - 10_000).toUTCString()), 0);
+  });
+
+  it("backs off exponentially with jitter without Retry-After", () => {
+    const policy = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+    for (let i = 0; i < 50; i++) {
+      assert.ok(retryDelayMs(policy, 0, null) < 100);
+      assert.ok(retryDelayMs(policy, 2, null) < 400);
+      assert.ok(retryDelayMs(policy, 10, null) <= 1000);
+    }
+  });
+
+  it("falls back to backoff when Retry-After can't be read", () => {
+    const policy = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+    assert.ok(retryDelayMs(policy, 0, "soon") < 100);
+  });
+});
+
+describe("isRetryableResponse", () => {
+  it("retries throttling for every method", () => {
+    assert.equal(isRetryableResponse("GET", 429, null), true);
+    assert.equal(isRetryableResponse("POST", 429, null), true);
+  });
+
+  it("retries server errors for idempotent methods", () => {
+    assert.equal(isRetryableResponse("GET", 500, null), true);
+    assert.equal(isRetryableResponse("put", 502, null), true);
+    assert.equal(isRetryableResponse("DELETE", 503, null), true);
+  });
+
+  it("only retries a POST server error when a 503 says when to try again", () => {
+    assert.equal(isRetryableResponse("POST", 500, null), false);
+    assert.equal(isRetryableResponse("POST", 503, null), false);
+    assert.equal(isRetryableResponse("POST", 503, "2"), true);
+  });
+
+  it("never retries client errors", () => {
+    assert.equal(isRetryableResponse("GET", 400, null), false);
+    assert.equal(isRetryableResponse("PUT", 404, "2"), false);
+  });
+});
@@ -0,0 +1,56 @@
+import { withRequestOptions } from "../src/azure-rest.js";
+import { functionTokenProvider } from "../src/token-provider.js";
+
+export const TEST_PRINCIPAL_ID = "00000000-0000-0000-0000-0000000000aa";
+
+/** A request seen by the stubbed fetch */
+export interface StubbedRequest {
+  method: string;
+  url: string;
+  body?: any;
+}
+
+type Handler = (request: StubbedRequest) => unknown;
+
+/**
+ * Replace fetch with a handler that answers Azure and Graph calls with JSON.
+ * Returns the requests seen so far and a function that restores the real fetch.
+ */
+export function stubFetch(handler: Handler): { requests: StubbedRequest[]; restore: () => void } {
+  const originalFetch = globalThis.fetch;
+  const requests: StubbedRequest[] = [];
+
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const request: StubbedRequest = {
+      method: init?.method ?? "GET",
+      url: String(input),
+      body: typeof init?.body === "string" ? JSON.parse(init.body) : undefined,
+    };
+    requests.push(request);
+    const result = handler(request);
+    if (result instanceof Response) {
+      return result;
+    }
+    return new Response(JSON.stringify(result ?? { value: [] }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  }) as typeof fetch;
+
+  return { requests, restore: () => { globalThis.fetch = originalFetch; } };
+}
+
+/** Run fn with a token whose oid is TEST_PRINCIPAL_ID and no retries */
+export function withTestToken<T>(fn: () => Promise<T>): Promise<T> {
+  const claims = { oid: TEST_PRINCIPAL_ID, exp: Math.floor(Date.now() / 1000) + 3600 };
+  const token = `x.${Buffer.from(JSON.stringify(claims)).toString("base64url")}.y`;
+  return withRequestOptions(
+    { tokenProvider: functionTokenProvider(async () => token), retry: { maxRetries: 0 } },
+    fn
+  );
+}
+
+/** Whether a stubbed request changes something in Azure */
+export function isWrite(request: StubbedRequest): boolean {
+  return request.method !== "GET";
+}
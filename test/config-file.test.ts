@@ -0,0 +1,33 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseConfig, ConfigFileError, CONFIG_VERSION } from "../src/config-file.js";
+
+describe("parseConfig", () => {
+  it("migrates a version 1 quickRoles block to the default profile", () => {
+    const quickRoles = { roles: [{ name: "Reader", scope: "prod" }], defaultJustification: "Daily work" };
+    const config = parseConfig({ quickRoles, retry: { maxRetries: 5 } }, "test.json");
+    assert.equal(config.version, CONFIG_VERSION);
+    assert.deepEqual(config.profiles, { default: quickRoles });
+    assert.equal(config.defaultProfile, "default");
+    assert.deepEqual(config.retry, { maxRetries: 5 });
+    assert.equal("quickRoles" in config, false);
+  });
+
+  it("keeps a default profile that was already chosen", () => {
+    const config = parseConfig({ quickRoles: { roles: [] }, defaultProfile: "other" }, "test.json");
+    assert.equal(config.defaultProfile, "other");
+  });
+
+  it("reports schema violations with their JSON path", () => {
+    assert.throws(
+      () => parseConfig({ version: 2, profiles: { "daily-dev": { roles: [{ name: "Reader" }] } } }, "test.json"),
+      (error: unknown) =>
+        error instanceof ConfigFileError &&
+        error.issues.some((issue) => issue.startsWith('$.profiles["daily-dev"].roles[0].scope:'))
+    );
+  });
+
+  it("rejects files from a newer version", () => {
+    assert.throws(() => parseConfig({ version: CONFIG_VERSION + 1 }, "test.json"), ConfigFileError);
+  });
+});
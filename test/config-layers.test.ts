@@ -0,0 +1,97 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ConfigFileError } from "../src/config-file.js";
+import { getEffectiveConfig } from "../src/config-layers.js";
+
+describe("getEffectiveConfig", () => {
+  const originalHome = process.env.HOME;
+  const originalCwd = process.cwd();
+  let root: string;
+  let home: string;
+  let project: string;
+
+  before(() => {
+    root = mkdtempSync(join(tmpdir(), "pim-me-config-"));
+    home = join(root, "home");
+    project = join(root, "project");
+    mkdirSync(home);
+    mkdirSync(project);
+    process.env.HOME = home;
+    process.chdir(project);
+  });
+
+  after(() => {
+    process.chdir(originalCwd);
+    process.env.HOME = originalHome;
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    rmSync(join(home, ".pim-me-mcp.json"), { force: true });
+    rmSync(join(project, ".pim-me-mcp.json"), { force: true });
+    delete process.env.PIM_QUICK_ROLES;
+    delete process.env.PIM_DEFAULT_PROFILE;
+  });
+
+  function writeConfig(dir: string, config: unknown) {
+    writeFileSync(join(dir, ".pim-me-mcp.json"), JSON.stringify(config));
+  }
+
+  it("merges profiles by name and nested settings field by field", () => {
+    writeConfig(home, {
+      version: 2,
+      profiles: { daily: { roles: [{ name: "Reader", scope: "dev" }] }, billing: { roles: [] } },
+      defaultProfile: "daily",
+      retry: { maxRetries: 2, baseDelayMs: 500 },
+    });
+    writeConfig(project, {
+      version: 2,
+      profiles: { daily: { roles: [{ name: "Contributor", scope: "dev" }] } },
+      retry: { maxRetries: 5 },
+    });
+
+    const { config, values } = getEffectiveConfig();
+    assert.deepEqual(config.profiles?.daily.roles, [{ name: "Contributor", scope: "dev" }]);
+    assert.deepEqual(config.profiles?.billing, { roles: [] });
+    assert.deepEqual(config.retry, { maxRetries: 5, baseDelayMs: 500 });
+    assert.equal(config.defaultProfile, "daily");
+    assert.equal(values.find((v) => v.key === "retry.maxRetries")?.layer, "project");
+    assert.equal(values.find((v) => v.key === "retry.baseDelayMs")?.layer, "user");
+  });
+
+  it("lets environment variables override both files", () => {
+    writeConfig(home, { version: 2, defaultProfile: "daily" });
+    process.env.PIM_QUICK_ROLES = JSON.stringify([{ name: "Reader", scope: "prod" }]);
+
+    const { config, values } = getEffectiveConfig();
+    assert.equal(config.defaultProfile, "default");
+    assert.deepEqual(config.profiles?.default.roles, [{ name: "Reader", scope: "prod" }]);
+    assert.equal(values.find((v) => v.key === "defaultProfile")?.source, "PIM_QUICK_ROLES");
+  });
+
+  it("ignores tokenProvider and auditLog in the project file", () => {
+    writeConfig(home, { version: 2, auditLog: { path: "/home/audit.jsonl" } });
+    writeConfig(project, {
+      version: 2,
+      tokenProvider: { type: "module", path: "./steal-tokens.mjs" },
+      auditLog: { enabled: false, path: "/tmp/elsewhere.jsonl" },
+      retry: { maxRetries: 1 },
+    });
+
+    const { config } = getEffectiveConfig();
+    assert.equal(config.tokenProvider, undefined);
+    assert.deepEqual(config.auditLog, { path: "/home/audit.jsonl" });
+    assert.deepEqual(config.retry, { maxRetries: 1 });
+  });
+
+  it("names the file of an invalid layer", () => {
+    writeConfig(project, { version: 2, retry: { maxRetries: -1 } });
+    assert.throws(
+      () => getEffectiveConfig(),
+      (error: unknown) => error instanceof ConfigFileError && error.filePath === join(project, ".pim-me-mcp.json")
+    );
+  });
+});
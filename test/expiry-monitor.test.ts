@@ -0,0 +1,72 @@
+import { describe, it, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { startExpiryMonitor, type ExpiryEvent } from "../src/expiry-monitor.js";
+import type { ActiveRoleAssignment, CliListActiveRolesResult } from "../src/pim-cli.js";
+
+function activeRole(minutesLeft: number): ActiveRoleAssignment {
+  return {
+    id: "a1",
+    roleDefinitionId: "owner",
+    roleName: "Owner",
+    scope: "/subscriptions/11111111-1111-1111-1111-111111111111",
+    scopeName: "prod-subscription",
+    principalId: "p1",
+    principalType: "User",
+    memberType: "Direct",
+    status: "Provisioned",
+    endDateTime: new Date(Date.now() + minutesLeft * 60_000).toISOString(),
+    roleSource: "azureResource",
+  };
+}
+
+function listed(roles: ActiveRoleAssignment[]): CliListActiveRolesResult {
+  return { success: true, roles, scheduledRoles: [], message: "" };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe("startExpiryMonitor", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("is off unless enabled", async () => {
+    let polls = 0;
+    const stop = startExpiryMonitor(undefined, async () => { polls++; return listed([]); }, () => {});
+    await tick();
+    stop();
+    assert.equal(polls, 0);
+  });
+
+  it("only logs when a poll fails, and a repeated failure once", async () => {
+    const log = mock.method(console, "error", () => {});
+    let polls = 0;
+    const stop = startExpiryMonitor(
+      { enabled: true, pollIntervalSeconds: 0.005 },
+      async () => {
+        polls++;
+        return polls <= 2 ? listed([activeRole(60)]) : { ...listed([]), success: false, message: "offline" };
+      },
+      () => {}
+    );
+    await tick();
+    await tick();
+    stop();
+
+    const messages = log.mock.calls.map((call) => String(call.arguments[0]));
+    assert.ok(polls > 3, `${polls} poll(s)`);
+    assert.deepEqual(messages.filter((m) => !m.startsWith("Watching active roles")), ["Expiry check failed: offline"]);
+  });
+
+  it("warns once per threshold crossed", async () => {
+    const events: ExpiryEvent[] = [];
+    const role = activeRole(10);
+    const stop = startExpiryMonitor(
+      { enabled: true, warnBeforeMinutes: [15, 5], pollIntervalSeconds: 0.005 },
+      async () => listed([role]),
+      (event) => events.push(event)
+    );
+    await tick();
+    stop();
+
+    assert.deepEqual(events.map((e) => [e.kind, e.minutesLeft]), [["expiring", 10]]);
+  });
+});
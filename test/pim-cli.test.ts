@@ -0,0 +1,302 @@
+import { describe, it, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  activatePimRolesCli,
+  deactivatePimRolesCli,
+  deactivateRoleCli,
+  extendPimRolesCli,
+  type ActiveRoleAssignment,
+} from "../src/pim-cli.js";
+import { stubFetch, withTestToken, isWrite, type StubbedRequest } from "./azure-stub.js";
+
+const SCOPE = "/subscriptions/11111111-1111-1111-1111-111111111111";
+const ROLE_DEFINITION_ID = `${SCOPE}/providers/Microsoft.Authorization/roleDefinitions/owner`;
+
+function activeOwner() {
+  return {
+    id: `${SCOPE}/providers/Microsoft.Authorization/roleAssignmentScheduleInstances/a1`,
+    properties: {
+      assignmentType: "Activated",
+      roleDefinitionId: ROLE_DEFINITION_ID,
+      scope: SCOPE,
+      startDateTime: new Date(Date.now() - 3600_000).toISOString(),
+      endDateTime: new Date(Date.now() + 3600_000).toISOString(),
+      memberType: "Direct",
+      linkedRoleEligibilityScheduleId: "es1",
+      expandedProperties: {
+        roleDefinition: { displayName: "Owner" },
+        scope: { displayName: "prod-subscription" },
+      },
+    },
+  };
+}
+
+/** Answer the active-role listing with one Owner assignment and deactivations with the given status */
+function deactivationStub(status: string) {
+  return (request: StubbedRequest) => {
+    if (request.method === "PUT") {
+      return { id: `${SCOPE}/providers/Microsoft.Authorization/roleAssignmentScheduleRequests/r1`, properties: { status } };
+    }
+    if (request.url.includes("management.azure.com") && request.url.includes("roleAssignmentScheduleInstances")) {
+      return { value: [activeOwner()] };
+    }
+    return { value: [] };
+  };
+}
+
+describe("deactivation status", () => {
+  const originalHome = process.env.HOME;
+  const originalCwd = process.cwd();
+  let home: string;
+  let restore: (() => void) | undefined;
+
+  before(() => {
+    home = mkdtempSync(join(tmpdir(), "pim-me-cli-"));
+    process.env.HOME = home;
+    process.chdir(home);
+  });
+
+  after(() => {
+    process.chdir(originalCwd);
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  afterEach(() => restore?.());
+
+  it("only reports a deactivation that took effect as successful", async () => {
+    ({ restore } = stubFetch(deactivationStub("Revoked")));
+    const revoked = await withTestToken(() => deactivateRoleCli(SCOPE, ROLE_DEFINITION_ID, "p1"));
+    assert.equal(revoked.success, true);
+    assert.equal(revoked.state, "deactivated");
+    restore();
+
+    ({ restore } = stubFetch(deactivationStub("Denied")));
+    const denied = await withTestToken(() => deactivateRoleCli(SCOPE, ROLE_DEFINITION_ID, "p1"));
+    assert.equal(denied.success, false);
+    assert.equal(denied.state, "denied");
+  });
+
+  it("keeps a pending deactivation out of deactivatedRoles", async () => {
+    ({ restore } = stubFetch(deactivationStub("PendingRevocation")));
+    const result = await withTestToken(() => deactivatePimRolesCli([{ name: "Owner", scope: "prod" }]));
+
+    assert.deepEqual(result.deactivatedRoles, []);
+    assert.deepEqual(result.failedRoles, []);
+    assert.equal(result.requests.length, 1);
+    assert.equal(result.warnings.length, 1);
+  });
+
+  it("reports a denied deactivation in failedRoles", async () => {
+    ({ restore } = stubFetch(deactivationStub("Denied")));
+    const result = await withTestToken(() => deactivatePimRolesCli([{ name: "Owner", scope: "prod" }]));
+
+    assert.equal(result.success, false);
+    assert.deepEqual(result.deactivatedRoles, []);
+    assert.equal(result.failedRoles.length, 1);
+    assert.equal(result.requests[0].state, "denied");
+  });
+});
+
+describe("extension status", () => {
+  const originalHome = process.env.HOME;
+  const originalCwd = process.cwd();
+  let home: string;
+  let restore: (() => void) | undefined;
+
+  const owner: ActiveRoleAssignment = {
+    id: "a1",
+    roleDefinitionId: ROLE_DEFINITION_ID,
+    roleName: "Owner",
+    scope: SCOPE,
+    scopeName: "prod-subscription",
+    principalId: "p1",
+    principalType: "User",
+    memberType: "Direct",
+    status: "Provisioned",
+    roleSource: "azureResource",
+  };
+
+  /** Answer extension requests with the given status and schedule */
+  function extensionStub(status: string, scheduleInfo?: unknown) {
+    return (request: StubbedRequest) => request.method === "PUT"
+      ? { id: `${SCOPE}/providers/Microsoft.Authorization/roleAssignmentScheduleRequests/x1`, properties: { status, scheduleInfo } }
+      : { value: [] };
+  }
+
+  before(() => {
+    home = mkdtempSync(join(tmpdir(), "pim-me-cli-"));
+    process.env.HOME = home;
+    process.chdir(home);
+  });
+
+  after(() => {
+    process.chdir(originalCwd);
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  afterEach(() => restore?.());
+
+  it("reports the end time Azure returns for an extension that took effect", async () => {
+    const endDateTime = "2030-01-01T08:00:00.000Z";
+    ({ restore } = stubFetch(extensionStub("Provisioned", { startDateTime: "2030-01-01T00:00:00.000Z", expiration: { endDateTime } })));
+    const result = await withTestToken(() => extendPimRolesCli([owner], "on call", 8));
+
+    assert.deepEqual(result.extendedRoles, [{ role: "Owner (prod-subscription)", endDateTime }]);
+    assert.equal(result.requests[0].state, "activated");
+  });
+
+  it("keeps a pending extension out of extendedRoles without inventing an end time", async () => {
+    ({ restore } = stubFetch(extensionStub("PendingApproval")));
+    const result = await withTestToken(() => extendPimRolesCli([owner], "on call", 8));
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.extendedRoles, []);
+    assert.deepEqual(result.pendingRoles, ["Owner (prod-subscription)"]);
+    assert.equal(result.requests[0].state, "pendingApproval");
+    assert.match(result.requests[0].requestId, /x1$/);
+  });
+
+  it("logs each extension as soon as it is answered", async () => {
+    const auditLog = join(home, ".pim-me-audit.jsonl");
+    rmSync(auditLog, { force: true });
+    const loggedBeforeRequest: number[] = [];
+    ({ restore } = stubFetch((request) => {
+      if (request.method === "PUT") {
+        loggedBeforeRequest.push(existsSync(auditLog) ? readFileSync(auditLog, "utf-8").trim().split("\n").length : 0);
+      }
+      return extensionStub("PendingApproval")(request);
+    }));
+    const reader = { ...owner, roleName: "Reader", roleDefinitionId: `${SCOPE}/providers/Microsoft.Authorization/roleDefinitions/reader` };
+    await withTestToken(() => extendPimRolesCli([owner, reader], "on call", 8));
+
+    assert.deepEqual(loggedBeforeRequest, [0, 1]);
+  });
+
+  it("reports a denied extension in failedRoles", async () => {
+    ({ restore } = stubFetch(extensionStub("Denied")));
+    const result = await withTestToken(() => extendPimRolesCli([owner], "on call", 8));
+
+    assert.equal(result.success, false);
+    assert.deepEqual(result.extendedRoles, []);
+    assert.equal(result.failedRoles.length, 1);
+  });
+});
+
+describe("dry run", () => {
+  const originalHome = process.env.HOME;
+  const originalCwd = process.cwd();
+  let home: string;
+  let restore: (() => void) | undefined;
+
+  const roleDefinition = (name: string) => `${SCOPE}/providers/Microsoft.Authorization/roleDefinitions/${name.toLowerCase()}`;
+
+  function eligible(name: string) {
+    return {
+      id: `${SCOPE}/providers/Microsoft.Authorization/roleEligibilityScheduleInstances/${name}`,
+      properties: {
+        roleDefinitionId: roleDefinition(name),
+        scope: SCOPE,
+        memberType: "Direct",
+        expandedProperties: { roleDefinition: { displayName: name }, scope: { displayName: "prod-subscription" } },
+      },
+    };
+  }
+
+  /** Owner needs approval, Contributor is already active, Reader has neither; every role allows 8 hours */
+  function dryRunStub(request: StubbedRequest) {
+    const url = decodeURIComponent(request.url);
+    if (url.includes("management.azure.com") && url.includes("roleEligibilityScheduleInstances")) {
+      return { value: ["Owner", "Contributor", "Reader"].map(eligible) };
+    }
+    if (url.includes("management.azure.com") && url.includes("roleAssignmentScheduleInstances")) {
+      const contributor = activeOwner();
+      contributor.properties.roleDefinitionId = roleDefinition("Contributor");
+      contributor.properties.expandedProperties.roleDefinition.displayName = "Contributor";
+      return { value: [contributor] };
+    }
+    if (url.includes("roleManagementPolicyAssignments")) {
+      const effectiveRules: unknown[] = [{ id: "Expiration_EndUser_Assignment", maximumDuration: "PT8H" }];
+      if (url.includes(roleDefinition("Owner"))) {
+        effectiveRules.push({ id: "Approval_EndUser_Assignment", setting: { isApprovalRequired: true } });
+      }
+      return { value: [{ properties: { effectiveRules } }] };
+    }
+    return { value: [] };
+  }
+
+  const role = (name: string) => ({ name, scope: "prod-subscription" });
+
+  before(() => {
+    home = mkdtempSync(join(tmpdir(), "pim-me-cli-"));
+    process.env.HOME = home;
+    process.chdir(home);
+  });
+
+  after(() => {
+    process.chdir(originalCwd);
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  afterEach(() => restore?.());
+
+  it("plans each role's outcome without submitting anything", async () => {
+    let requests: StubbedRequest[];
+    ({ requests, restore } = stubFetch(dryRunStub));
+    const result = await withTestToken(() => activatePimRolesCli(
+      [role("Owner"), role("Reader"), role("Contributor"), role("Missing")],
+      "testing",
+      4,
+      { dryRun: true }
+    ));
+
+    assert.deepEqual(result.plan?.map((p) => [p.role, p.expectedOutcome]), [
+      ["Owner (prod-subscription)", "pendingApproval"],
+      ["Reader (prod-subscription)", "activated"],
+      ["Contributor (prod-subscription)", "alreadyActive"],
+      ["Missing (prod-subscription)", "failed"],
+    ]);
+    assert.equal(result.plan?.[1].durationHours, 4);
+    assert.deepEqual(result.requests, []);
+    assert.deepEqual(result.activatedRoles, []);
+    assert.deepEqual(requests.filter(isWrite), []);
+    assert.equal(existsSync(join(home, ".pim-me-audit.jsonl")), false);
+  });
+
+  it("plans a future start as scheduled, even for a role that is active now", async () => {
+    let requests: StubbedRequest[];
+    ({ requests, restore } = stubFetch(dryRunStub));
+    const startDateTime = new Date(Date.now() + 24 * 3600_000).toISOString();
+    const result = await withTestToken(() => activatePimRolesCli(
+      [role("Reader"), role("Contributor")],
+      "maintenance window",
+      2,
+      { dryRun: true, startDateTime }
+    ));
+
+    assert.deepEqual(result.plan?.map((p) => p.expectedOutcome), ["scheduled", "scheduled"]);
+    assert.equal(result.plan?.[0].startDateTime, startDateTime);
+    assert.deepEqual(requests.filter(isWrite), []);
+  });
+
+  it("plans a duration over the policy maximum as failed when it would be rejected", async () => {
+    let requests: StubbedRequest[];
+    ({ requests, restore } = stubFetch(dryRunStub));
+    const result = await withTestToken(() => activatePimRolesCli(
+      [role("Reader")],
+      "long task",
+      10,
+      { dryRun: true, durationPolicy: "reject" }
+    ));
+
+    assert.equal(result.success, false);
+    assert.equal(result.plan?.[0].expectedOutcome, "failed");
+    assert.match(result.plan?.[0].reason ?? "", /exceeds the policy maximum of 8h/);
+    assert.deepEqual(requests.filter(isWrite), []);
+  });
+});
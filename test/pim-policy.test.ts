@@ -0,0 +1,34 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseIsoDurationHours, formatIsoDuration } from "../src/pim-policy.js";
+
+describe("parseIsoDurationHours", () => {
+  it("reads hours, minutes, seconds and days", () => {
+    assert.equal(parseIsoDurationHours("PT8H"), 8);
+    assert.equal(parseIsoDurationHours("PT30M"), 0.5);
+    assert.equal(parseIsoDurationHours("PT1H30M"), 1.5);
+    assert.equal(parseIsoDurationHours("PT5400S"), 1.5);
+    assert.equal(parseIsoDurationHours("P1D"), 24);
+    assert.equal(parseIsoDurationHours("P1DT2H"), 26);
+  });
+
+  it("returns undefined for missing or malformed durations", () => {
+    assert.equal(parseIsoDurationHours(undefined), undefined);
+    assert.equal(parseIsoDurationHours("8 hours"), undefined);
+    assert.equal(parseIsoDurationHours("PT8X"), undefined);
+  });
+});
+
+describe("formatIsoDuration", () => {
+  it("uses hours when whole and minutes otherwise", () => {
+    assert.equal(formatIsoDuration(8), "PT8H");
+    assert.equal(formatIsoDuration(0.5), "PT30M");
+    assert.equal(formatIsoDuration(1.25), "PT75M");
+  });
+
+  it("round-trips through parseIsoDurationHours", () => {
+    for (const hours of [1, 4, 0.5, 2.75]) {
+      assert.equal(parseIsoDurationHours(formatIsoDuration(hours)), hours);
+    }
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { resolveRole, describeResolutionFailure, type RoleCandidate } from "../src/role-resolver.js";
+
+function candidate(overrides: Partial<RoleCandidate>): RoleCandidate {
+  return {
+    id: "eligibility-1",
+    roleDefinitionId: "/providers/Microsoft.Authorization/roleDefinitions/acdd72a7-3385-48ef-bd42-f606fba81ae7",
+    roleName: "Reader",
+    scope: "/subscriptions/11111111-1111-1111-1111-111111111111",
+    scopeName: "prod-subscription",
+    memberType: "Direct",
+    roleSource: "azureResource",
+    ...overrides,
+  };
+}
+
+const reader = candidate({});
+const blobReader = candidate({
+  id: "eligibility-2",
+  roleDefinitionId: "/providers/Microsoft.Authorization/roleDefinitions/2a2b9908-6ea1-4ae2-8e65-a410df84e7d1",
+  roleName: "Storage Blob Data Reader",
+});
+const devReader = candidate({
+  id: "eligibility-3",
+  scope: "/subscriptions/22222222-2222-2222-2222-222222222222",
+  scopeName: "dev-subscription",
+});
+
+describe("resolveRole", () => {
+  it("matches the role definition GUID and full scope ID", () => {
+    const resolution = resolveRole(
+      { name: "acdd72a7-3385-48ef-bd42-f606fba81ae7", scope: "/subscriptions/11111111-1111-1111-1111-111111111111/" },
+      [reader, blobReader, devReader]
+    );
+    assert.equal(resolution.status, "resolved");
+    assert.equal(resolution.status === "resolved" && resolution.role, reader);
+    assert.equal(resolution.status === "resolved" && resolution.matchedBy, "id");
+  });
+
+  it("prefers an exact name match over a partial one", () => {
+    const resolution = resolveRole({ name: "reader", scope: "PROD-SUBSCRIPTION" }, [blobReader, reader]);
+    assert.equal(resolution.status, "resolved");
+    assert.equal(resolution.status === "resolved" && resolution.role, reader);
+    assert.equal(resolution.status === "resolved" && resolution.matchedBy, "exactName");
+  });
+
+  it("prefers an exact name with no scope over a partial name", () => {
+    const resolution = resolveRole({ name: "Reader", scope: "" }, [blobReader, reader]);
+    assert.equal(resolution.status, "resolved");
+    assert.equal(resolution.status === "resolved" && resolution.role, reader);
+    assert.equal(resolution.status === "resolved" && resolution.matchedBy, "exactName");
+  });
+
+  it("prefers the closer name when a partial scope puts both roles in the fuzzy tier", () => {
+    const resolution = resolveRole({ name: "Reader", scope: "prod" }, [blobReader, reader]);
+    assert.equal(resolution.status, "resolved");
+    assert.equal(resolution.status === "resolved" && resolution.role, reader);
+    assert.equal(resolution.status === "resolved" && resolution.matchedBy, "fuzzy");
+  });
+
+  it("reports every distinct role in the best tier as ambiguous", () => {
+    const queueReader = candidate({
+      id: "eligibility-5",
+      roleDefinitionId: "/providers/Microsoft.Authorization/roleDefinitions/19e7f393-937e-4f77-808e-94535e297925",
+      roleName: "Storage Queue Data Reader",
+    });
+    const resolution = resolveRole({ name: "Storage", scope: "prod" }, [reader, blobReader, queueReader]);
+    assert.equal(resolution.status, "ambiguous");
+    assert.deepEqual(resolution.status === "ambiguous" && resolution.candidates, [blobReader, queueReader]);
+    assert.equal(resolution.status === "ambiguous" && resolution.matchedBy, "fuzzy");
+  });
+
+  it("is ambiguous when an empty scope matches several scopes", () => {
+    const resolution = resolveRole({ name: "Reader", scope: "" }, [reader, devReader]);
+    assert.equal(resolution.status, "ambiguous");
+    assert.match(describeResolutionFailure(resolution), /matches 2 roles: Reader \(prod-subscription.*Reader \(dev-subscription/);
+  });
+
+  it("treats the same role eligible directly and through a group as one, preferring the direct one", () => {
+    const viaGroup = candidate({ id: "eligibility-4", memberType: "Group" });
+    const resolution = resolveRole({ name: "Reader", scope: "prod" }, [viaGroup, reader]);
+    assert.equal(resolution.status, "resolved");
+    assert.equal(resolution.status === "resolved" && resolution.role, reader);
+  });
+
+  it("matches only the given eligibility ID when one is passed", () => {
+    const resolution = resolveRole({ name: "", scope: "", id: "ELIGIBILITY-3" }, [reader, devReader]);
+    assert.equal(resolution.status, "resolved");
+    assert.equal(resolution.status === "resolved" && resolution.role, devReader);
+  });
+
+  it("only considers candidates from the requested role source", () => {
+    const directoryReader = candidate({ id: "directory-1", roleSource: "directory", scope: "/", scopeName: "Directory" });
+    const resolution = resolveRole({ name: "Reader", scope: "", roleSource: "directory" }, [reader, directoryReader]);
+    assert.equal(resolution.status, "resolved");
+    assert.equal(resolution.status === "resolved" && resolution.role, directoryReader);
+  });
+
+  it("reports roles that match nothing, naming what was searched", () => {
+    const resolution = resolveRole({ name: "Owner", scope: "prod" }, [reader]);
+    assert.equal(resolution.status, "notFound");
+    assert.equal(
+      describeResolutionFailure(resolution, "active"),
+      'Could not find active role matching "Owner" at scope "prod"'
+    );
+  });
+});
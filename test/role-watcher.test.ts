@@ -0,0 +1,164 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { takeRenewal, watchRolesCli, type WatchOptions } from "../src/role-watcher.js";
+import { stubFetch, withTestToken, isWrite, type StubbedRequest } from "./azure-stub.js";
+
+describe("takeRenewal", () => {
+  it("allows up to the daily maximum", () => {
+    const watched = { renewalsToday: { day: "", count: 0 } };
+    const now = new Date("2024-06-03T09:00:00Z");
+    assert.equal(takeRenewal(watched, 2, now), true);
+    assert.equal(takeRenewal(watched, 2, now), true);
+    assert.equal(takeRenewal(watched, 2, now), false);
+    assert.deepEqual(watched.renewalsToday, { day: "2024-06-03", count: 2 });
+  });
+
+  it("starts a new allowance on a new day", () => {
+    const watched = { renewalsToday: { day: "2024-06-03", count: 3 } };
+    assert.equal(takeRenewal(watched, 3, new Date("2024-06-03T23:59:00Z")), false);
+    assert.equal(takeRenewal(watched, 3, new Date("2024-06-04T00:01:00Z")), true);
+    assert.deepEqual(watched.renewalsToday, { day: "2024-06-04", count: 1 });
+  });
+
+  it("allows nothing with a maximum of zero", () => {
+    const watched = { renewalsToday: { day: "", count: 0 } };
+    assert.equal(takeRenewal(watched, 0), false);
+  });
+});
+
+const SCOPE = "/subscriptions/11111111-1111-1111-1111-111111111111";
+const ROLE_DEFINITION_ID = `${SCOPE}/providers/Microsoft.Authorization/roleDefinitions/owner`;
+const expandedProperties = {
+  roleDefinition: { displayName: "Owner" },
+  scope: { displayName: "prod-subscription" },
+};
+
+const eligibleOwner = {
+  id: `${SCOPE}/providers/Microsoft.Authorization/roleEligibilityScheduleInstances/e1`,
+  properties: { roleDefinitionId: ROLE_DEFINITION_ID, scope: SCOPE, memberType: "Direct", expandedProperties },
+};
+
+function activeOwner(endDateTime: string) {
+  return {
+    id: `${SCOPE}/providers/Microsoft.Authorization/roleAssignmentScheduleInstances/a1`,
+    properties: {
+      assignmentType: "Activated",
+      roleDefinitionId: ROLE_DEFINITION_ID,
+      scope: SCOPE,
+      startDateTime: new Date(Date.now() - 3600_000).toISOString(),
+      endDateTime,
+      memberType: "Direct",
+      expandedProperties,
+    },
+  };
+}
+
+interface Scenario {
+  /** Whether the role is active at the given poll (counting from 1) */
+  activeAt: (poll: number) => boolean;
+  endDateTime?: string;
+  /** Answer to a SelfActivate or SelfExtend request */
+  write: (request: StubbedRequest) => unknown;
+  polls: number;
+  options?: WatchOptions;
+}
+
+/**
+ * Watch Owner against a stubbed Azure for a number of polls, returning the requests sent
+ * to PIM and the renewals reported
+ */
+async function watch(scenario: Scenario) {
+  const controller = new AbortController();
+  let polls = 0;
+  const endDateTime = scenario.endDateTime ?? new Date(Date.now() + 3600_000).toISOString();
+  const { requests, restore } = stubFetch((request) => {
+    if (isWrite(request)) {
+      return scenario.write(request);
+    }
+    if (request.url.includes("management.azure.com") && request.url.includes("roleEligibilityScheduleInstances")) {
+      return { value: [eligibleOwner] };
+    }
+    if (request.url.includes("management.azure.com") && request.url.includes("roleAssignmentScheduleInstances")) {
+      polls++;
+      if (polls >= scenario.polls) {
+        controller.abort();
+      }
+      return { value: scenario.activeAt(polls) ? [activeOwner(endDateTime)] : [] };
+    }
+    return { value: [] };
+  });
+
+  try {
+    const renewals = await withTestToken(() => watchRolesCli(
+      [{ name: "Owner", scope: "prod-subscription" }],
+      "on call",
+      { pollIntervalSeconds: 0.01, maxRenewalsPerDay: 100, ...scenario.options, signal: controller.signal }
+    ));
+    const writes = requests.filter(isWrite).map((r) => r.body?.properties?.requestType);
+    return { renewals, writes };
+  } finally {
+    restore();
+  }
+}
+
+const pendingApproval = () => ({ id: `${SCOPE}/providers/Microsoft.Authorization/roleAssignmentScheduleRequests/r1`, properties: { status: "PendingApproval" } });
+
+describe("watchRolesCli", () => {
+  const originalHome = process.env.HOME;
+  const originalCwd = process.cwd();
+  let home: string;
+
+  before(() => {
+    home = mkdtempSync(join(tmpdir(), "pim-me-watch-"));
+    process.env.HOME = home;
+    process.chdir(home);
+  });
+
+  after(() => {
+    process.chdir(originalCwd);
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  it("doesn't re-activate a role that was never seen active", async () => {
+    const { renewals, writes } = await watch({ activeAt: () => false, write: pendingApproval, polls: 5 });
+    assert.deepEqual(writes, []);
+    assert.deepEqual(renewals, []);
+  });
+
+  it("re-activates a lapsed role once, even while the request waits on approval", async () => {
+    const { renewals, writes } = await watch({ activeAt: (poll) => poll <= 2, write: pendingApproval, polls: 8 });
+    assert.deepEqual(writes, ["SelfActivate"]);
+    assert.deepEqual(renewals.map((r) => [r.action, r.success]), [["reactivate", true]]);
+  });
+
+  it("re-activates again after the role is seen active and lapses a second time", async () => {
+    const { writes } = await watch({ activeAt: (poll) => poll <= 2 || poll === 5, write: pendingApproval, polls: 8 });
+    assert.deepEqual(writes, ["SelfActivate", "SelfActivate"]);
+  });
+
+  it("backs off after a failed re-activation instead of retrying every poll", async () => {
+    const { renewals } = await watch({
+      activeAt: (poll) => poll === 1,
+      write: () => new Response(JSON.stringify({ error: { code: "InternalServerError", message: "boom" } }), { status: 400 }),
+      polls: 20,
+    });
+    // 19 polls without the role; backing off from 20ms doubles the wait after each failure
+    assert.ok(renewals.length >= 2, `${renewals.length} attempt(s)`);
+    assert.ok(renewals.length <= 7, `${renewals.length} attempt(s)`);
+    assert.ok(renewals.every((r) => r.action === "reactivate" && !r.success));
+  });
+
+  it("requests an extension once while it waits on approval", async () => {
+    const { writes } = await watch({
+      activeAt: () => true,
+      endDateTime: new Date(Date.now() + 5 * 60_000).toISOString(),
+      write: pendingApproval,
+      polls: 5,
+    });
+    assert.deepEqual(writes, ["SelfExtend"]);
+  });
+});
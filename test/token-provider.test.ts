@@ -0,0 +1,35 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { azureCliTokenProvider } from "../src/token-provider.js";
+import { parseConfig, ConfigFileError } from "../src/config-file.js";
+
+const VALID_TENANTS = ["72f988bf-86f1-41af-91ab-2d7cd011db47", "contoso.onmicrosoft.com"];
+const INVALID_TENANTS = ["contoso; rm -rf ~", "$(whoami)", "contoso", "a.b --query accessToken"];
+
+describe("azureCliTokenProvider", () => {
+  it("accepts a tenant ID or domain name", () => {
+    for (const tenant of VALID_TENANTS) {
+      assert.equal(azureCliTokenProvider(tenant).tenant, tenant);
+    }
+  });
+
+  it("rejects any other tenant before running az", () => {
+    for (const tenant of INVALID_TENANTS) {
+      assert.throws(() => azureCliTokenProvider(tenant), /Invalid tenant/);
+    }
+  });
+});
+
+describe("tokenProvider config", () => {
+  it("accepts only a tenant ID or domain for the Azure CLI tenant", () => {
+    for (const tenant of VALID_TENANTS) {
+      assert.doesNotThrow(() => parseConfig({ version: 2, tokenProvider: { type: "azureCli", tenant } }, "test.json"));
+    }
+    for (const tenant of INVALID_TENANTS) {
+      assert.throws(
+        () => parseConfig({ version: 2, tokenProvider: { type: "azureCli", tenant } }, "test.json"),
+        ConfigFileError
+      );
+    }
+  });
+});